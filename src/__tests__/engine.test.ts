@@ -4,7 +4,14 @@ import {
   renderBackgroundPixels,
   resolveBackgroundArgs,
 } from "../core/engine";
-import type { BackgroundArgs } from "../core/types";
+import type {
+  BackgroundArgs,
+  BackgroundBlendMode,
+  BackgroundLayer,
+  BackgroundRenderDiagnostics,
+  BackgroundShadow,
+  LinearGradientLayer,
+} from "../core/types";
 
 const pixelAt = (
   pixels: Uint8ClampedArray,
@@ -113,6 +120,285 @@ describe("background engine", () => {
     expect(middle[2]).toBe(0);
   });
 
+  it("interpolates oklch hues along the requested hue path", () => {
+    const renderMiddle = (
+      hueInterpolation: "shorter" | "longer",
+    ): [number, number, number, number] => {
+      const pixels = renderBackgroundPixels(
+        {
+          dither: { mode: "none" },
+          layers: [
+            {
+              type: "linear",
+              startX: 0,
+              startY: 0,
+              endX: 2,
+              endY: 0,
+              colors: { start: "#ff0000", end: "#0000ff" },
+              colorSpace: "oklch",
+              hueInterpolation,
+            },
+          ],
+        },
+        3,
+        1,
+      );
+      return pixelAt(pixels, 3, 1, 0);
+    };
+
+    // red (h≈29°) → blue (h≈264°): the short path passes magenta, the long one green.
+    const shorter = renderMiddle("shorter");
+    const longer = renderMiddle("longer");
+
+    expect(shorter[0]).toBeGreaterThan(shorter[1]);
+    expect(longer[1]).toBeGreaterThan(longer[0]);
+  });
+
+  it("reports out-of-gamut samples and maps them per layer", () => {
+    const render = (gamutMapping: "clip" | "css") => {
+      let diagnostics: BackgroundRenderDiagnostics | undefined;
+      const pixels = renderBackgroundPixels(
+        {
+          dither: { mode: "none" },
+          layers: [
+            { type: "linear", colors: { start: "#000000", end: "#ffffff" } },
+            {
+              type: "linear",
+              colors: { start: "oklch(0.7 0.35 150)", end: "oklch(0.7 0.35 150)" },
+              gamutMapping,
+            },
+          ],
+        },
+        4,
+        2,
+        4,
+        2,
+        { onDiagnostics: (result) => (diagnostics = result) },
+      );
+      return { pixels, diagnostics };
+    };
+
+    const clipped = render("clip");
+    const mapped = render("css");
+
+    expect(clipped.diagnostics).toEqual({
+      totalPixels: 8,
+      outOfGamutPixels: 8,
+      layerOutOfGamutPixels: [0, 8],
+    });
+    expect(mapped.diagnostics?.outOfGamutPixels).toBe(8);
+    expect(Array.from(mapped.pixels)).not.toEqual(Array.from(clipped.pixels));
+  });
+
+  it("interpolates transparent stops in premultiplied alpha by default", () => {
+    const render = (alphaInterpolation?: "premultiplied" | "straight") =>
+      pixelAt(
+        renderBackgroundPixels(
+          {
+            baseColor: "white",
+            dither: { mode: "none" },
+            layers: [
+              {
+                type: "linear",
+                startX: 0,
+                startY: 0,
+                endX: 5,
+                endY: 0,
+                colorSpace: "linear-srgb",
+                alphaInterpolation,
+                stops: [
+                  { position: 0, color: "red" },
+                  { position: 1, color: "rgb(0 0 255 / 0)" },
+                ],
+              },
+            ],
+          },
+          5,
+          1,
+        ),
+        5,
+        2,
+        0,
+      );
+
+    const premultiplied = render();
+    expect(premultiplied[1]).toBe(premultiplied[2]);
+    expect(premultiplied[0]).toBe(255);
+
+    const straight = render("straight");
+    expect(straight[2]).toBeGreaterThan(straight[1]);
+  });
+
+  it("repeats stops and anti-aliases hard stop edges", () => {
+    const row = (spreadMethod?: "pad" | "repeat" | "reflect") => {
+      const pixels = renderBackgroundPixels(
+        {
+          dither: { mode: "none" },
+          layers: [
+            {
+              type: "linear",
+              startX: 0,
+              startY: 0,
+              endX: 4,
+              endY: 0,
+              colorSpace: "linear-srgb",
+              spread: spreadMethod,
+              stops: [
+                { position: 0, color: "#000000" },
+                { position: 0.5, color: "#000000" },
+                { position: 0.5, color: "#ffffff" },
+                { position: 1, color: "#ffffff" },
+              ],
+            },
+          ],
+        },
+        12,
+        1,
+      );
+      return Array.from({ length: 12 }, (_, x) => pixelAt(pixels, 12, x, 0)[0]);
+    };
+
+    // Edges land exactly on samples, which take half coverage.
+    expect(row("repeat")).toEqual([188, 0, 188, 255, 188, 0, 188, 255, 188, 0, 188, 255]);
+    expect(row("reflect")).toEqual([0, 0, 188, 255, 255, 255, 188, 0, 0, 0, 188, 255]);
+    expect(row().slice(3)).toEqual([255, 255, 255, 255, 255, 255, 255, 255, 255]);
+  });
+
+  it("interpolates mesh corner colors bilinearly", () => {
+    const pixels = renderBackgroundPixels(
+      {
+        baseColor: "#000000",
+        dither: { mode: "none" },
+        layers: [
+          {
+            type: "mesh",
+            colorSpace: "linear-srgb",
+            points: [
+              [
+                { x: 0, y: 0, color: "#ff0000" },
+                { x: 4, y: 0, color: "#00ff00" },
+              ],
+              [
+                { x: 0, y: 4, color: "#0000ff" },
+                { x: 4, y: 4, color: "#ffffff" },
+              ],
+            ],
+          },
+        ],
+      },
+      6,
+      5,
+    );
+
+    expect(pixelAt(pixels, 6, 0, 0)).toEqual([255, 0, 0, 255]);
+    expect(pixelAt(pixels, 6, 4, 0)).toEqual([0, 255, 0, 255]);
+    expect(pixelAt(pixels, 6, 0, 4)).toEqual([0, 0, 255, 255]);
+    expect(pixelAt(pixels, 6, 4, 4)).toEqual([255, 255, 255, 255]);
+    // Center: a quarter of each corner in linear light.
+    expect(pixelAt(pixels, 6, 2, 2)).toEqual([188, 188, 188, 255]);
+    expect(pixelAt(pixels, 6, 5, 2)).toEqual([0, 0, 0, 255]);
+  });
+
+  it("blends freeform points by inverse distance or radial basis", () => {
+    const row = (weighting?: "inverse-distance" | "radial-basis") => {
+      const pixels = renderBackgroundPixels(
+        {
+          dither: { mode: "none" },
+          layers: [
+            {
+              type: "freeform",
+              weighting,
+              points: [
+                { x: 0, y: 0, color: "#ff0000", radius: 2 },
+                { x: 4, y: 0, color: "#0000ff", radius: 2 },
+              ],
+            },
+          ],
+        },
+        5,
+        1,
+      );
+      return Array.from({ length: 5 }, (_, x) => pixelAt(pixels, 5, x, 0));
+    };
+
+    // Inverse-distance weighting is exact at every point.
+    const shepard = row();
+    expect(shepard[0]).toEqual([255, 0, 0, 255]);
+    expect(shepard[4]).toEqual([0, 0, 255, 255]);
+
+    // Gaussians overlap, so points take on some of their neighbors' color.
+    const gaussian = row("radial-basis");
+    expect(gaussian[0][2]).toBeGreaterThan(0);
+    expect(gaussian[4][0]).toBeGreaterThan(0);
+
+    // Both are symmetric: the midpoint is the Oklab average.
+    expect(gaussian[2]).toEqual(shepard[2]);
+  });
+
+  it("warps layer geometry with seeded noise", () => {
+    const render = (warp?: { amplitude?: number; seed?: number }) =>
+      Array.from(
+        renderBackgroundPixels(
+          {
+            dither: { mode: "none" },
+            layers: [
+              {
+                type: "linear",
+                startX: 0,
+                startY: 0,
+                endX: 64,
+                endY: 0,
+                warp: warp && { frequency: 0.05, ...warp },
+                stops: [
+                  { position: 0.5, color: "#000000" },
+                  { position: 0.5, color: "#ffffff" },
+                ],
+              },
+            ],
+          },
+          64,
+          32,
+        ),
+      );
+    const edges = (pixels: number[]) =>
+      Array.from({ length: 32 }, (_, y) => {
+        const row = Array.from({ length: 64 }, (_, x) => pixels[(y * 64 + x) * 4]);
+        return row.findIndex((value) => value > 127);
+      });
+
+    // Unwarped, the hard stop is a straight vertical edge.
+    expect(new Set(edges(render())).size).toBe(1);
+    expect(render({ amplitude: 0 })).toEqual(render());
+
+    const warped = render({ amplitude: 8, seed: 1 });
+    expect(new Set(edges(warped)).size).toBeGreaterThan(2);
+    expect(warped).toEqual(render({ amplitude: 8, seed: 1 }));
+    expect(warped).not.toEqual(render({ amplitude: 8, seed: 2 }));
+  });
+
+  it("encodes display-p3 output without clipping wide-gamut colors", () => {
+    const render = (baseColor: string, outputColorSpace?: "srgb" | "display-p3") =>
+      pixelAt(
+        renderBackgroundPixels(
+          { baseColor, outputColorSpace, dither: { mode: "none" } },
+          1,
+          1,
+        ),
+        1,
+        0,
+        0,
+      );
+
+    expect(render("color(display-p3 1 0 0)", "display-p3")).toEqual([255, 0, 0, 255]);
+    expect(render("color(display-p3 1 0 0)")).toEqual([255, 0, 0, 255]);
+
+    const srgbRed = render("#ff0000", "display-p3");
+    expect(srgbRed[0]).toBeGreaterThan(230);
+    expect(srgbRed[0]).toBeLessThan(240);
+    expect(srgbRed[1]).toBeGreaterThan(45);
+    expect(srgbRed[2]).toBeGreaterThan(25);
+  });
+
   it("applies shadow intensity along gradient progress", () => {
     const args: BackgroundArgs = {
       dither: {
@@ -147,6 +433,40 @@ describe("background engine", () => {
     expect(start[0] - end[0]).toBeGreaterThan(120);
   });
 
+  it("darkens, tints and lightens shadows toward their color", () => {
+    const shaded = (shadow: BackgroundShadow) => {
+      const pixels = renderBackgroundPixels(
+        {
+          dither: { mode: "none" },
+          layers: [
+            {
+              type: "linear",
+              colors: { start: "#cc8844", end: "#cc8844" },
+              shadow: { startIntensity: 0.5, endIntensity: 0.5, ...shadow },
+            },
+          ],
+        },
+        2,
+        1,
+      );
+      return pixelAt(pixels, 2, 0, 0).slice(0, 3);
+    };
+
+    // The default black darkening halves the color in linear light.
+    expect(shaded({})).toEqual([149, 98, 47]);
+    expect(shaded({ color: "#000080" })).toEqual([149, 98, 53]);
+    expect(shaded({ color: "#000080", mode: "tint", startIntensity: 1, endIntensity: 1 })).toEqual(
+      [0, 0, 128],
+    );
+    expect(shaded({ color: "#000080", mode: "tint" })).toEqual([149, 98, 103]);
+    expect(shaded({ color: "#000080", mode: "tint", space: "srgb" })).toEqual([102, 68, 98]);
+    expect(shaded({ color: "#000080", mode: "tint", space: "oklab" })).toEqual([93, 89, 116]);
+    expect(shaded({ color: "#ffffff", mode: "lighten" })).toEqual([231, 207, 192]);
+    expect(
+      shaded({ color: "#3366ff", mode: "lighten", startIntensity: 1, endIntensity: 1 }),
+    ).toEqual([206, 159, 255]);
+  });
+
   it("renders inset box gradients with spread and blur inside the box only", () => {
     const args: BackgroundArgs = {
       baseColor: "#000000",
@@ -183,6 +503,242 @@ describe("background engine", () => {
     expect(edgeInside[0]).toBeGreaterThan(150);
   });
 
+  it("colors stroke layers by arc length and fades them with distance", () => {
+    const render = (blur: number) =>
+      renderBackgroundPixels(
+        {
+          dither: { mode: "none" },
+          baseColor: "#808080",
+          layers: [
+            {
+              type: "stroke",
+              path: "M8 16 H56",
+              width: 8,
+              blur,
+              stops: [
+                { position: 0.5, color: "#000000" },
+                { position: 0.5, color: "#ffffff" },
+              ],
+            },
+          ],
+        },
+        64,
+        32,
+      );
+    const pixel = (pixels: Uint8ClampedArray, x: number, y: number) =>
+      Array.from(pixels.slice((y * 64 + x) * 4, (y * 64 + x) * 4 + 4));
+
+    const hard = render(0);
+    expect(pixel(hard, 12, 16)).toEqual([0, 0, 0, 255]);
+    expect(pixel(hard, 52, 16)).toEqual([255, 255, 255, 255]);
+    expect(pixel(hard, 32, 21)).toEqual([128, 128, 128, 255]);
+
+    // Blur softens the ribbon's edge without reaching far from it.
+    const soft = render(6);
+    expect(pixel(soft, 32, 21)[0]).toBeGreaterThan(128);
+    expect(pixel(soft, 32, 2)).toEqual([128, 128, 128, 255]);
+  });
+
+  it("implements every CSS blend mode in linear light", () => {
+    const blend = (blendMode: BackgroundBlendMode, baseColor = "#3366cc", color = "#cc8844") =>
+      Array.from(
+        renderBackgroundPixels(
+          {
+            dither: { mode: "none" },
+            baseColor,
+            layers: [{ type: "linear", blendMode, colors: { start: color, end: color } }],
+          },
+          1,
+          1,
+        ).slice(0, 3),
+      );
+
+    const expected: Record<BackgroundBlendMode, number[]> = {
+      normal: [204, 136, 68],
+      add: [209, 166, 212],
+      multiply: [39, 51, 52],
+      screen: [206, 159, 207],
+      overlay: [56, 72, 138],
+      darken: [51, 102, 68],
+      lighten: [204, 136, 204],
+      "color-dodge": [82, 117, 209],
+      "color-burn": [0, 0, 0],
+      "hard-light": [133, 72, 75],
+      "soft-light": [64, 77, 168],
+      difference: [199, 95, 195],
+      exclusion: [203, 152, 202],
+      hue: [151, 92, 0],
+      saturation: [55, 102, 201],
+      color: [151, 92, 0],
+      luminosity: [127, 151, 229],
+    };
+    for (const [mode, rgb] of Object.entries(expected)) {
+      expect(blend(mode as BackgroundBlendMode), mode).toEqual(rgb);
+    }
+
+    // Non-separable modes take hue and saturation from one side only.
+    const [r, g, b] = blend("luminosity", "#808080");
+    expect(r).toBe(g);
+    expect(g).toBe(b);
+    const [cr, cg, cb] = blend("color", "#808080");
+    expect(cr).toBeGreaterThan(cg);
+    expect(cg).toBeGreaterThan(cb);
+  });
+
+  it("composites in linear light, encoded sRGB or Oklab", () => {
+    const gray = (args: BackgroundArgs) =>
+      renderBackgroundPixels({ dither: { mode: "none" }, baseColor: "#ffffff", ...args }, 1, 1)[0];
+    const halfBlack: BackgroundLayer = {
+      type: "linear",
+      opacity: 0.5,
+      colors: { start: "#000000", end: "#000000" },
+    };
+
+    expect(gray({ layers: [halfBlack] })).toBe(188);
+    // Half of encoded white, as CSS and design tools blend.
+    expect(gray({ compositeSpace: "srgb", layers: [halfBlack] })).toBe(127);
+    expect(gray({ compositeSpace: "oklab", layers: [halfBlack] })).toBe(99);
+
+    // A layer's own composite space overrides the args.
+    const multiply: BackgroundLayer = {
+      type: "linear",
+      blendMode: "multiply",
+      compositeSpace: "srgb",
+      colors: { start: "#808080", end: "#808080" },
+    };
+    expect(gray({ compositeSpace: "srgb", layers: [halfBlack, multiply] })).toBe(64);
+    expect(gray({ layers: [halfBlack, multiply] })).toBe(94);
+  });
+
+  it("composites groups in isolation with their opacity and mask", () => {
+    const fill = (color: string): BackgroundLayer => ({
+      type: "linear",
+      colors: { start: color, end: color },
+    });
+    // Covers the left half of the 4×4 canvas.
+    const leftHalf: BackgroundLayer = {
+      type: "box",
+      x: 0,
+      y: 0,
+      width: 2,
+      height: 4,
+      blur: 0,
+      colors: { start: "#000000", end: "#000000" },
+    };
+    const row = (args: BackgroundArgs) => {
+      const pixels = renderBackgroundPixels(
+        { dither: { mode: "none" }, baseColor: "#808080", ...args },
+        4,
+        4,
+      );
+      return [0, 3].map((x) => Array.from(pixels.slice((8 + x) * 4, (8 + x) * 4 + 4)));
+    };
+
+    // Faded as a unit, the black half hides the white below it within the group.
+    expect(row({ layers: [{ type: "group", opacity: 0.5, layers: [fill("#ffffff"), leftHalf] }] })).toEqual([
+      [92, 92, 92, 255],
+      [205, 205, 205, 255],
+    ]);
+    expect(
+      row({ layers: [{ ...fill("#ffffff"), opacity: 0.5 }, { ...leftHalf, opacity: 0.5 }] })[0],
+    ).toEqual([150, 150, 150, 255]);
+
+    // The mask layer is not drawn; its coverage limits the group.
+    expect(row({ layers: [{ type: "group", layers: [fill("#ffffff")], mask: leftHalf }] })).toEqual([
+      [255, 255, 255, 255],
+      [128, 128, 128, 255],
+    ]);
+
+    // A half-transparent group over a transparent base keeps its color.
+    expect(
+      row({
+        opaque: false,
+        baseColor: "transparent",
+        layers: [{ type: "group", layers: [{ ...fill("#ffffff"), opacity: 0.5 }] }],
+      })[0],
+    ).toEqual([255, 255, 255, 128]);
+  });
+
+  it("masks layers with earlier layers' fields and clips to the layer below", () => {
+    // Covers the left half of the 4×4 canvas; opacity 0 keeps it a pure mask.
+    const rect: BackgroundLayer = {
+      id: "rect",
+      type: "box",
+      x: 0,
+      y: 0,
+      width: 2,
+      height: 4,
+      blur: 0,
+      opacity: 0,
+      colors: { start: "#ffffff", end: "#ffffff" },
+    };
+    const ramp: BackgroundLayer = {
+      id: "ramp",
+      type: "linear",
+      startX: 0,
+      startY: 0,
+      endX: 4,
+      endY: 0,
+      opacity: 0,
+      colors: { start: "#ffffff", end: "#ffffff" },
+    };
+    const black = (extra: Partial<LinearGradientLayer>): LinearGradientLayer => ({
+      type: "linear",
+      colors: { start: "#000000", end: "#000000" },
+      ...extra,
+    });
+    const row = (layers: BackgroundLayer[]) => {
+      const pixels = renderBackgroundPixels(
+        { dither: { mode: "none" }, baseColor: "#808080", layers },
+        4,
+        4,
+      );
+      return [0, 3].map((x) => pixels[(8 + x) * 4]);
+    };
+
+    expect(row([rect, black({ masks: [{ layer: "rect" }] })])).toEqual([0, 128]);
+    expect(row([rect, black({ masks: [{ layer: "rect", invert: true }] })])).toEqual([128, 0]);
+    expect(row([rect, black({ masks: [{ layer: "rect", operation: "subtract" }] })])).toEqual([
+      128, 0,
+    ]);
+    expect(row([ramp, black({ masks: [{ layer: "ramp", source: "progress" }] })])).toEqual([128, 66]);
+
+    // Clipping follows the base layer's final coverage, opacity included.
+    expect(row([{ ...rect, opacity: 0.5 }, black({ clip: true })])).toEqual([150, 128]);
+
+    expect(() => row([black({ masks: [{ layer: "rect" }] }), rect])).toThrow("not an earlier layer");
+    expect(() => row([black({ clip: true })])).toThrow("clips to the layer below");
+  });
+
+  it("fits, blurs and blends images in linear light", () => {
+    // Black left column, white right column.
+    const source = {
+      width: 2,
+      height: 2,
+      data: new Uint8ClampedArray([0, 0, 0, 255, 255, 255, 255, 255, 0, 0, 0, 255, 255, 255, 255, 255]),
+    };
+    const row = (args: BackgroundArgs) => {
+      const pixels = renderBackgroundPixels({ dither: { mode: "none" }, baseColor: "#808080", ...args }, 64, 32);
+      return (x: number) => pixels[(16 * 64 + x) * 4];
+    };
+
+    // Contain leaves the base color beside the image; cover fills the canvas.
+    const contain = row({ baseImage: { source, fit: "contain" } });
+    expect([contain(0), contain(20), contain(44), contain(63)]).toEqual([128, 0, 255, 128]);
+    const cover = row({ baseImage: { source, fit: "cover" } });
+    expect([cover(0), cover(63)]).toEqual([0, 255]);
+
+    // Halfway between the columns is 50% linear light, not sRGB 128.
+    expect(contain(32)).toBe(188);
+
+    const blurred = row({ baseImage: { source, fit: "contain", blur: 1 } });
+    expect(blurred(20)).toBeGreaterThan(0);
+    expect(blurred(44)).toBeLessThan(255);
+
+    const layer = row({ layers: [{ type: "image", source, fit: "contain", opacity: 0.5 }] });
+    expect([layer(0), layer(20), layer(44)]).toEqual([128, 92, 205]);
+  });
+
   it("keeps grain deterministic per seed and varies across seeds", () => {
     const baseArgs: BackgroundArgs = {
       baseColor: "#202020",
@@ -0,0 +1,9 @@
+declare module "glsl-transpiler" {
+  interface GlslTranspilerOptions {
+    /** Replaces each uniform declaration's initializer. */
+    uniform?: ((name: string) => string) | false;
+  }
+
+  /** Returns a compiler from GLSL ES source to JavaScript. */
+  export default function GLSL(options?: GlslTranspilerOptions): (source: string) => string;
+}
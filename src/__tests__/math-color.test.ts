@@ -1,15 +1,39 @@
 import { describe, expect, it } from "vitest";
 import {
+  clampLinearRgba,
+  gamutMapLinearRgba,
+  interpolateHue,
+  interpolateLinearRgba,
+  interpolationSpaceToLinearSrgb,
+  isLinearRgbInGamut,
+  linearSrgbToInterpolationSpace,
   linearRgbaToHex,
   oklabToLinearRgb,
   parseColorToLinearRgba,
+  parseCssColor,
   linearRgbToOklab,
+  oklabToOklch,
 } from "../core/color";
 import {
+  applySpreadMethod,
+  resolveLayerTransform,
   sampleBoxProgress,
+  resolveCornerRadii,
+  sampleBlobProgress,
+  sampleLineCoverage,
+  samplePatternProgress,
+  signedDistanceToBlobs,
+  smoothMin,
+  sampleConicProgress,
+  sampleLayerProgress,
   sampleLinearProgress,
   sampleRadialProgress,
+  sampleShapeProgress,
 } from "../core/math";
+import { buildMeshPatches, invertMeshPatch, sampleMeshProgress } from "../core/mesh";
+import { sampleNoiseProgress, simplexNoise2D } from "../core/noise";
+import { parseSvgPath } from "../core/shape";
+import type { BoxGradientLayer, PatternGradientLayer } from "../core/types";
 
 describe("background color utilities", () => {
   it("parses alpha channel from hex", () => {
@@ -35,6 +59,101 @@ describe("background color utilities", () => {
     const hex = linearRgbaToHex(parseColorToLinearRgba("#2a3b4c"));
     expect(hex).toBe("#2a3b4c");
   });
+
+  it("parses CSS Color 4 functional and named syntax", () => {
+    const red = ["rgb(255 0 0)", "rgba(255, 0, 0, 1)", "hsl(0deg 100% 50%)", "hwb(0 0% 0%)", "red"];
+    for (const input of red) {
+      const parsed = parseColorToLinearRgba(input);
+      expect(parsed.r).toBeCloseTo(1, 6);
+      expect(parsed.g).toBeCloseTo(0, 6);
+      expect(parsed.b).toBeCloseTo(0, 6);
+    }
+
+    const oklch = parseCssColor("oklch(0.627955 0.257683 29.2339 / 50%)");
+    expect(oklch.r).toBeCloseTo(1, 4);
+    expect(oklch.g).toBeCloseTo(0, 4);
+    expect(oklch.a).toBeCloseTo(0.5, 6);
+
+    const lab = parseCssColor("lab(54.29 80.8049 69.891)");
+    expect(lab.r).toBeCloseTo(1, 3);
+    expect(lab.b).toBeCloseTo(0, 3);
+
+    expect(linearRgbaToHex(parseColorToLinearRgba("rebeccapurple"))).toBe("#663399");
+    expect(parseColorToLinearRgba("transparent").a).toBe(0);
+  });
+
+  it("follows CSS hue interpolation methods", () => {
+    expect(interpolateHue(350, 10, 0.5, "shorter")).toBeCloseTo(0, 6);
+    expect(interpolateHue(350, 10, 0.5, "longer")).toBeCloseTo(180, 6);
+    expect(interpolateHue(10, 350, 0.5, "increasing")).toBeCloseTo(180, 6);
+    expect(interpolateHue(10, 350, 0.5, "decreasing")).toBeCloseTo(0, 6);
+    expect(interpolateHue(Number.NaN, 120, 0.5, "shorter")).toBeCloseTo(120, 6);
+  });
+
+  it("interpolates in every CSS interpolation space", () => {
+    const red = parseCssColor("red");
+    const blue = parseCssColor("blue");
+    const mid = (space: Parameters<typeof interpolateLinearRgba>[3]) =>
+      linearRgbaToHex(interpolateLinearRgba(red, blue, 0.5, space));
+
+    // color-mix(in <space>, red, blue) reference values.
+    const srgbMid = linearSrgbToInterpolationSpace(
+      interpolateLinearRgba(red, blue, 0.5, "srgb"),
+      "srgb",
+    );
+    expect(srgbMid[0]).toBeCloseTo(0.5, 6);
+    expect(srgbMid[2]).toBeCloseTo(0.5, 6);
+    expect(mid("hsl")).toBe("#ff00ff");
+    expect(mid("hwb")).toBe("#ff00ff");
+    expect(mid("xyz")).toBe(mid("linear-srgb"));
+    expect(mid("lab")).toBe("#c10088");
+
+    const teal = parseCssColor("#123456");
+    for (const space of ["srgb", "lab", "lch", "xyz", "hsl", "hwb"] as const) {
+      const [r, g, b] = interpolationSpaceToLinearSrgb(
+        linearSrgbToInterpolationSpace(teal, space),
+        space,
+      );
+      expect(r).toBeCloseTo(teal.r, 6);
+      expect(g).toBeCloseTo(teal.g, 6);
+      expect(b).toBeCloseTo(teal.b, 6);
+    }
+
+    expect(linearSrgbToInterpolationSpace(parseCssColor("gray"), "hsl")[0]).toBeNaN();
+    expect(linearSrgbToInterpolationSpace(parseCssColor("white"), "lch")[2]).toBeNaN();
+  });
+
+  it("keeps wide-gamut colors out of range until clamped", () => {
+    const p3Red = parseCssColor("color(display-p3 1 0 0)");
+    expect(p3Red.r).toBeGreaterThan(1);
+    expect(p3Red.g).toBeLessThan(0);
+
+    const clamped = parseColorToLinearRgba("color(display-p3 1 0 0)");
+    expect(clamped.r).toBe(1);
+    expect(clamped.g).toBe(0);
+  });
+
+  it("gamut-maps by reducing chroma instead of clipping channels", () => {
+    const source = parseCssColor("oklch(0.95 0.3 260)");
+    expect(isLinearRgbInGamut(source)).toBe(false);
+
+    const mapped = gamutMapLinearRgba(source);
+    expect(isLinearRgbInGamut(mapped)).toBe(true);
+
+    const [mappedL, , mappedH] = oklabToOklch(linearRgbToOklab(mapped));
+    const [clippedL, , clippedH] = oklabToOklch(linearRgbToOklab(clampLinearRgba(source)));
+
+    expect(Math.abs(mappedL - 0.95)).toBeLessThan(Math.abs(clippedL - 0.95));
+    expect(Math.abs(mappedH - 260)).toBeLessThan(Math.abs(clippedH - 260));
+  });
+
+  it("names the offending token in parse errors", () => {
+    expect(() => parseCssColor("rgb(255 0 foo)")).toThrow(/"foo"/);
+    expect(() => parseCssColor("color(rec709 1 0 0)")).toThrow(/"rec709"/);
+    expect(() => parseCssColor("hsl(10 20% 30% 40%)")).toThrow(/3 components/);
+    expect(() => parseCssColor("blurple")).toThrow(/Unknown color name "blurple"/);
+    expect(() => parseCssColor("rgb(255, 50%, 0)")).toThrow(/mixes numbers and percentages/);
+  });
 });
 
 describe("background gradient math", () => {
@@ -84,6 +203,311 @@ describe("background gradient math", () => {
     expect(edge.t).toBeCloseTo(1, 6);
   });
 
+  it("samples two-point conical radials from the focal circle", () => {
+    const layer = {
+      type: "radial" as const,
+      centerX: 50,
+      centerY: 50,
+      radiusX: 50,
+      radiusY: 50,
+      focalX: 75,
+      focalY: 50,
+      focalRadius: 0.1,
+    };
+    const at = (x: number, y: number, power?: number) =>
+      sampleRadialProgress({ ...layer, power }, x, y, 100, 100).t;
+
+    expect(at(75, 50)).toBe(0);
+    expect(at(100, 50)).toBeCloseTo(1, 6);
+    expect(at(0, 50)).toBeCloseTo(1, 6);
+    // Focal side compresses the ramp: equal distances from the focus differ.
+    expect(at(90, 50)).toBeGreaterThan(at(60, 50));
+    // Squircle bisection agrees with the closed-form ellipse near p = 2.
+    expect(at(30, 70, 2.0001)).toBeCloseTo(at(30, 70), 3);
+    // A centered focus matches the plain radial.
+    const centered = { ...layer, focalX: 50, focalRadius: 0 };
+    const plain = { type: "radial" as const, centerX: 50, centerY: 50, radiusX: 50, radiusY: 50 };
+    expect(sampleRadialProgress(centered, 20, 30, 100, 100).t).toBeCloseTo(
+      sampleRadialProgress(plain, 20, 30, 100, 100).t,
+      6,
+    );
+  });
+
+  it("sweeps conic gradients clockwise from the start angle", () => {
+    const at = (x: number, y: number, startAngle?: number, sweep?: number) =>
+      sampleConicProgress(
+        { type: "conic", centerX: 50, centerY: 50, startAngle, sweep },
+        x,
+        y,
+        100,
+        100,
+      ).t;
+
+    expect(at(50, 0)).toBeCloseTo(0, 6);
+    expect(at(100, 50)).toBeCloseTo(0.25, 6);
+    expect(at(50, 100)).toBeCloseTo(0.5, 6);
+    expect(at(0, 50)).toBeCloseTo(0.75, 6);
+    expect(at(100, 50, 90)).toBeCloseTo(0, 6);
+    expect(at(50, 100, 0, 180)).toBeCloseTo(1, 6);
+    expect(at(0, 50, 0, 180)).toBe(1);
+  });
+
+  it("folds progress past the stop range by spread method", () => {
+    expect(applySpreadMethod(1.25, "pad", 0, 1)).toBe(1.25);
+    expect(applySpreadMethod(1.25, "repeat", 0, 1)).toBeCloseTo(0.25, 6);
+    expect(applySpreadMethod(-0.25, "repeat", 0, 1)).toBeCloseTo(0.75, 6);
+    expect(applySpreadMethod(1.25, "reflect", 0, 1)).toBeCloseTo(0.75, 6);
+    expect(applySpreadMethod(-0.25, "reflect", 0, 1)).toBeCloseTo(0.25, 6);
+    // CSS repeating gradients repeat the stop range, not [0, 1].
+    expect(applySpreadMethod(0.35, "repeat", 0, 0.1)).toBeCloseTo(0.05, 6);
+
+    const layer = { type: "linear" as const, startX: 0, startY: 0, endX: 10, endY: 0 };
+    expect(sampleLinearProgress(layer, 15, 0, 10, 10).t).toBe(1);
+    expect(
+      sampleLinearProgress({ ...layer, spread: "repeat" }, 15, 0, 10, 10).t,
+    ).toBeCloseTo(1.5, 6);
+  });
+
+  it("applies easing within each repeat period", () => {
+    const layer = {
+      type: "linear" as const,
+      startX: 0,
+      startY: 0,
+      endX: 10,
+      endY: 0,
+      spread: "repeat" as const,
+      easing: 2,
+    };
+    const t = (x: number) =>
+      applySpreadMethod(sampleLinearProgress(layer, x, 0, 10, 10).t, "repeat", 0, 1, 2);
+
+    for (const x of [1, 3.5, 7]) {
+      expect(t(x + 10)).toBeCloseTo(t(x), 6);
+      expect(t(x - 10)).toBeCloseTo(t(x), 6);
+    }
+    expect(t(15)).toBeCloseTo(0.25, 6);
+    expect(applySpreadMethod(1.25, "reflect", 0, 1, 2)).toBeCloseTo(0.5625, 6);
+  });
+
+  it("samples transformed layers through the inverse transform", () => {
+    const ellipse = {
+      type: "radial" as const,
+      centerX: 50,
+      centerY: 50,
+      radiusX: 40,
+      radiusY: 10,
+    };
+    const at = (layer: typeof ellipse & { transform?: object }, x: number, y: number) =>
+      sampleLayerProgress(layer, x, y, 100, 100);
+
+    expect(at(ellipse, 50, 70).t).toBe(1);
+    expect(at({ ...ellipse, transform: { rotate: 90 } }, 50, 70).t).toBeCloseTo(0.5, 6);
+    expect(
+      at({ ...ellipse, transform: { matrix: [0, 1, -1, 0, 0, 0] } }, 50, 70).t,
+    ).toBeCloseTo(0.5, 6);
+
+    // Scaling around a pivot keeps the pivot fixed.
+    const scaled = { ...ellipse, transform: { scaleX: 2, originX: 10, originY: 50 } };
+    expect(at(scaled, 10, 50).t).toBeCloseTo(at(ellipse, 10, 50).t, 6);
+    expect(at(scaled, 90, 50).t).toBeCloseTo(0, 6);
+
+    const [a, b, c, d, e, f] = resolveLayerTransform(
+      { translateX: 5, rotate: 30, skewX: 10, scaleY: 3 },
+      100,
+      100,
+    ) as number[];
+    expect(a * d - b * c).toBeCloseTo(1 / 3, 6);
+    expect([e, f].every(Number.isFinite)).toBe(true);
+
+    expect(at({ ...ellipse, transform: { scaleX: 0 } }, 50, 50).mask).toBe(0);
+  });
+
+  it("inverts mesh patches, including curved edges", () => {
+    const square = {
+      type: "mesh" as const,
+      points: [
+        [
+          { x: 0, y: 0, color: "black" },
+          { x: 10, y: 0, color: "black" },
+        ],
+        [
+          { x: 0, y: 10, color: "white" },
+          { x: 10, y: 10, color: "white" },
+        ],
+      ],
+    };
+
+    const [patch] = buildMeshPatches(square);
+    const uv = invertMeshPatch(patch, 2.5, 7.5);
+    expect(uv?.[0]).toBeCloseTo(0.25, 2);
+    expect(uv?.[1]).toBeCloseTo(0.75, 2);
+    expect(sampleMeshProgress(square, 5, 5)).toEqual({ t: expect.closeTo(0.5, 2), mask: 1 });
+    expect(sampleMeshProgress(square, 15, 5).mask).toBe(0);
+
+    // Handles bulge the top edge up to y = -4.5 at its middle.
+    const bulged = {
+      ...square,
+      points: [
+        [
+          { x: 0, y: 0, color: "black", rowHandle: { x: 10 / 3, y: -6 } },
+          { x: 10, y: 0, color: "black", rowHandle: { x: 10 / 3, y: 6 } },
+        ],
+        square.points[1],
+      ],
+    };
+    expect(sampleMeshProgress(square, 5, -3).mask).toBe(0);
+    expect(sampleMeshProgress(bulged, 5, -3).mask).toBe(1);
+
+    expect(() =>
+      buildMeshPatches({ ...square, points: [square.points[0], [square.points[1][0]]] }),
+    ).toThrow("Mesh layer row 1 has 1 points, expected 2.");
+  });
+
+  it("samples smooth seeded fBm noise", () => {
+    let low = Infinity;
+    let high = -Infinity;
+    for (let i = 0; i < 400; i++) {
+      const value = simplexNoise2D(i * 0.37, i * 0.11 + 50);
+      low = Math.min(low, value);
+      high = Math.max(high, value);
+      // Continuous: a tiny step barely moves the value.
+      expect(Math.abs(simplexNoise2D(i * 0.37 + 0.001, i * 0.11 + 50) - value)).toBeLessThan(0.01);
+    }
+    expect(low).toBeGreaterThanOrEqual(-1);
+    expect(high).toBeLessThanOrEqual(1);
+    expect(high - low).toBeGreaterThan(1);
+
+    const layer = { type: "noise" as const, scale: 40, octaves: 5, seed: 3 };
+    const at = (overrides: object, x: number, y: number) =>
+      sampleLayerProgress({ ...layer, ...overrides }, x, y, 200, 100).t;
+
+    expect(at({}, 17, 23)).toBe(sampleNoiseProgress(layer, 17, 23, 200, 100).t);
+    expect(at({}, 17, 23)).not.toBe(at({ seed: 4 }, 17, 23));
+    expect(at({}, 17, 23)).toBeGreaterThanOrEqual(0);
+    expect(at({}, 17, 23)).toBeLessThanOrEqual(1);
+    // Octaves past the shader's limit are clamped on the CPU as well.
+    expect(at({ octaves: 20 }, 17, 23)).toBe(at({ octaves: 8 }, 17, 23));
+  });
+
+  it("matches box shadows on shape outlines", () => {
+    const box = { type: "box" as const, x: 10, y: 10, width: 20, height: 20, blur: 4, spread: 2 };
+    const square = {
+      type: "shape" as const,
+      shape: "path" as const,
+      path: "M10 10 h20 v20 H10 Z",
+      blur: 4,
+      spread: 2,
+    };
+
+    for (const inset of [true, false]) {
+      for (const [x, y] of [[20, 20], [11, 20], [13, 14], [5, 20], [33, 30]]) {
+        const expected = sampleBoxProgress({ ...box, inset }, x, y, 100, 100);
+        const actual = sampleShapeProgress({ ...square, inset }, x, y, 100, 100);
+        expect(actual.mask).toBe(expected.mask);
+        expect(actual.t).toBeCloseTo(expected.t, 6);
+      }
+    }
+
+    // A pentagram's points are filled and its center too, under the nonzero rule.
+    const star = { type: "shape" as const, shape: "star" as const, radius: 40, blur: 0 };
+    expect(sampleShapeProgress(star, 50, 12, 100, 100).mask).toBe(1);
+    expect(sampleShapeProgress(star, 50, 50, 100, 100).mask).toBe(1);
+    expect(sampleShapeProgress(star, 30, 20, 100, 100).mask).toBe(0);
+
+    const hexagon = { type: "shape" as const, shape: "polygon" as const, radius: 40, blur: 0 };
+    expect(sampleShapeProgress(hexagon, 50, 12, 100, 100).mask).toBe(1);
+    expect(sampleShapeProgress(hexagon, 17, 50, 100, 100).mask).toBe(1);
+    expect(sampleShapeProgress(hexagon, 20, 20, 100, 100).mask).toBe(0);
+
+    const loops = parseSvgPath("M0 0 h10 v10 z m20 0 q5 -5 10 0 C30 5, 25 10, 20 0");
+    expect(loops.map((loop) => loop.length)).toEqual([3, 25]);
+    expect(loops[1][12]).toEqual([30, 0]);
+    expect(() => parseSvgPath("M0 0 A5 5 0 0 1 10 0")).toThrow('Unsupported SVG path data "A"');
+  });
+
+  it("anti-aliases pattern layers analytically", () => {
+    const at = (layer: Partial<PatternGradientLayer>, x: number, y: number, footprint = 1) =>
+      samplePatternProgress({ type: "pattern", pattern: "grid", ...layer }, x, y, 100, 100, footprint).mask;
+
+    // A 1px grid line covers the pixel centered on it and half of its neighbor.
+    expect(at({}, 48, 10)).toBeCloseTo(1, 6);
+    expect(at({}, 48.5, 10)).toBeCloseTo(0.5, 6);
+    expect(at({}, 36, 10)).toBe(0);
+    expect(at({ offsetX: 12 }, 36, 10)).toBeCloseTo(1, 6);
+
+    // Footprints wider than the spacing average out instead of aliasing.
+    expect(sampleLineCoverage(7, 24, 6, 240)).toBeCloseTo(0.25, 6);
+    expect(at({ pattern: "stripes" }, 3, 50, 96)).toBeCloseTo(0.5, 6);
+    expect(at({ pattern: "dots", size: 12 }, 3, 50, 48)).toBeCloseTo(Math.PI / 16, 6);
+
+    expect(at({ pattern: "dots", size: 4 }, 24, 48)).toBe(1);
+    expect(at({ pattern: "dots", size: 4 }, 12, 12)).toBe(0);
+    expect(at({ pattern: "checker" }, 12, 12)).toBe(1);
+    expect(at({ pattern: "checker" }, 36, 12)).toBe(0);
+    expect(at({ pattern: "checker" }, 36, 36)).toBe(1);
+
+    // The fade drives both the stop progress and the coverage.
+    const faded = samplePatternProgress(
+      { type: "pattern", pattern: "checker", fade: { radiusX: 40, radiusY: 40 } },
+      62,
+      50,
+      100,
+      100,
+    );
+    expect(faded.t).toBeCloseTo(0.3, 6);
+    expect(faded.mask).toBeCloseTo(0.7, 6);
+  });
+
+  it("merges blobs with a smooth-min union", () => {
+    const blobs = {
+      type: "blob" as const,
+      blobs: [
+        { x: 30, y: 50, radiusX: 15 },
+        { x: 70, y: 50, radiusX: 15 },
+      ],
+      blur: 0,
+    };
+
+    // Circles are exact; the gap between them only fills in with a large k.
+    expect(signedDistanceToBlobs({ ...blobs, k: 0 }, 30, 20)).toBeCloseTo(15, 6);
+    expect(signedDistanceToBlobs({ ...blobs, k: 0 }, 50, 50)).toBeCloseTo(5, 6);
+    expect(sampleBlobProgress({ ...blobs, k: 0 }, 50, 50).mask).toBe(0);
+    expect(sampleBlobProgress({ ...blobs, k: 30 }, 50, 50).mask).toBe(1);
+    expect(smoothMin(0, 40, 30)).toBe(0);
+
+    // Ellipses and offsets.
+    const ellipse = { type: "blob" as const, blobs: [{ x: 50, y: 50, radiusX: 40, radiusY: 10 }], offsetX: 5 };
+    expect(signedDistanceToBlobs(ellipse, 94, 50)).toBeCloseTo(-1, 6);
+    expect(signedDistanceToBlobs(ellipse, 55, 61)).toBeCloseTo(1, 1);
+    expect(sampleBlobProgress({ ...ellipse, blobs: [] }, 50, 50).mask).toBe(0);
+  });
+
+  it("rounds box corners separately and rotates boxes", () => {
+    const box = { type: "box" as const, x: 10, y: 10, width: 40, height: 20, blur: 0, inset: true };
+    const at = (layer: Partial<BoxGradientLayer>, x: number, y: number) =>
+      sampleBoxProgress({ ...box, ...layer }, x, y, 100, 100).mask;
+
+    // Four equal radii match the single radius exactly.
+    for (const [x, y] of [[11, 11], [12, 12], [49, 29], [30, 5]]) {
+      expect(at({ radius: [8, 8, 8, 8] }, x, y)).toBe(at({ radius: 8 }, x, y));
+    }
+
+    // Only the top-left corner is cut.
+    expect(at({ radius: [10, 0, 0, 0] }, 11, 11)).toBe(0);
+    expect(at({ radius: [10, 0, 0, 0] }, 49, 11)).toBe(1);
+    expect(at({ radius: [10, 0, 0, 0] }, 11, 29)).toBe(1);
+
+    // Radii that overlap shrink together, like CSS border-radius.
+    expect(resolveCornerRadii([100, 100, 20, 0], 100, 100)).toEqual([50, 50, 10, 0]);
+    expect(resolveCornerRadii(50, 40, 20)).toEqual([10, 10, 10, 10]);
+
+    // A quarter turn swaps the box's width and height around its center.
+    expect(at({ rotation: 90 }, 30, 3)).toBe(1);
+    expect(at({ rotation: 90 }, 15, 20)).toBe(0);
+    expect(at({ rotation: 0 }, 30, 3)).toBe(0);
+    expect(at({ rotation: 0 }, 15, 20)).toBe(1);
+  });
+
   it("masks pixels outside inset box gradients", () => {
     const outside = sampleBoxProgress(
       {
@@ -1,10 +1,69 @@
+import GLSL from "glsl-transpiler";
 import { describe, expect, it } from "vitest";
+import { blendColor, resolveBackgroundArgs } from "../core/engine";
+import { sampleFbm, simplexNoise2D, warpPoint } from "../core/noise";
 import {
   BACKGROUND_WEBGL_LIMITS,
   canRenderBackgroundWithWebGL,
+  FRAGMENT_SHADER_SOURCE,
+  FRAGMENT_UNIFORM_VECTORS,
+  packLayerUniforms,
 } from "../core/webgl";
 import { createSignatureBackgroundArgs } from "../core/presets";
-import type { BackgroundArgs } from "../core/types";
+import type { BackgroundArgs, BackgroundBlendMode } from "../core/types";
+
+type ShaderVector = ArrayLike<number>;
+
+interface ShaderFunctions {
+  simplexNoise2D(p: ShaderVector): number;
+  sampleFbm(p: ShaderVector, noise1: ShaderVector, noise2: ShaderVector): number;
+  warpPoint(layerIndex: number, designPx: ShaderVector): Float32Array;
+  blendColor(destination: ShaderVector, source: ShaderVector, blendModeCode: number): Float32Array;
+}
+
+let transpiledShader: string | null = null;
+
+/**
+ * Functions of the fragment shader, transpiled to JavaScript. Vectors become
+ * Float32Arrays, so results follow the GPU's float32 math closely but not
+ * bit for bit; `uniforms` maps uniform names to values or arrays of vec4s.
+ */
+function loadShader(uniforms: Record<string, unknown> = {}): ShaderFunctions {
+  transpiledShader ??= GLSL({ uniform: (name) => `uniforms.${name}` })(FRAGMENT_SHADER_SOURCE);
+  const exported = "simplexNoise2D, sampleFbm, warpPoint, blendColor";
+  return new Function("uniforms", `${transpiledShader}\nreturn { ${exported} };`)(uniforms);
+}
+
+/** One packed uniform array as the vec4s the shader indexes. */
+const toVec4s = (values: Float32Array): Float32Array[] =>
+  Array.from({ length: values.length / 4 }, (_, index) => values.subarray(index * 4, index * 4 + 4));
+
+/** Blend modes in shader code order. */
+const BLEND_MODES: BackgroundBlendMode[] = [
+  "normal",
+  "add",
+  "multiply",
+  "screen",
+  "overlay",
+  "darken",
+  "lighten",
+  "color-dodge",
+  "color-burn",
+  "hard-light",
+  "soft-light",
+  "difference",
+  "exclusion",
+  "hue",
+  "saturation",
+  "color",
+  "luminosity",
+];
+
+const grid = (size: number, step: number): [number, number][] =>
+  Array.from({ length: size * size }, (_, index) => [
+    (index % size) * step - size * step * 0.37,
+    Math.floor(index / size) * step - size * step * 0.61,
+  ]);
 
 describe("background webgl eligibility", () => {
   it("supports the signature preset", () => {
@@ -67,4 +126,150 @@ describe("background webgl eligibility", () => {
     expect(support.supported).toBe(false);
     expect(support.reason).toContain("stops");
   });
+
+  it("rejects shape outlines with too many segments", () => {
+    const star = (sides: number): BackgroundArgs => ({
+      layers: [{ type: "shape", shape: "star", sides }],
+    });
+    const limit = BACKGROUND_WEBGL_LIMITS.maxShapeSegmentsPerLayer;
+
+    expect(canRenderBackgroundWithWebGL(star(limit / 2)).supported).toBe(true);
+    const support = canRenderBackgroundWithWebGL(star(limit / 2 + 1));
+    expect(support.supported).toBe(false);
+    expect(support.reason).toContain("shape segments");
+  });
+
+  it("rejects blob layers with too many blobs", () => {
+    const blobs = (count: number): BackgroundArgs => ({
+      layers: [
+        {
+          type: "blob",
+          blobs: Array.from({ length: count }, (_, index) => ({ x: index * 10, y: 50, radiusX: 20 })),
+        },
+      ],
+    });
+    const limit = BACKGROUND_WEBGL_LIMITS.maxBlobsPerLayer;
+
+    expect(canRenderBackgroundWithWebGL(blobs(limit)).supported).toBe(true);
+    const support = canRenderBackgroundWithWebGL(blobs(limit + 1));
+    expect(support.supported).toBe(false);
+    expect(support.reason).toContain("blobs");
+  });
+
+  it("rejects groups nested deeper than the shader supports", () => {
+    const nest = (depth: number): BackgroundArgs["layers"] => {
+      let layers: BackgroundArgs["layers"] = [{ type: "linear", colors: { start: "#000", end: "#fff" } }];
+      for (let level = 0; level < depth; level++) {
+        layers = [{ type: "group", layers }];
+      }
+      return layers;
+    };
+    const limit = BACKGROUND_WEBGL_LIMITS.maxGroupDepth;
+
+    expect(canRenderBackgroundWithWebGL({ layers: nest(limit) }).supported).toBe(true);
+    const support = canRenderBackgroundWithWebGL({ layers: nest(limit + 1) });
+    expect(support.supported).toBe(false);
+    expect(support.reason).toContain("nested");
+  });
+
+  it("counts a clip against the mask limit", () => {
+    const masked = (maskCount: number): BackgroundArgs => ({
+      layers: [
+        { id: "base", type: "linear", colors: { start: "#000", end: "#fff" } },
+        {
+          type: "linear",
+          colors: { start: "#000", end: "#fff" },
+          masks: Array.from({ length: maskCount }, () => ({ layer: "base" })),
+          clip: true,
+        },
+      ],
+    });
+    const limit = BACKGROUND_WEBGL_LIMITS.maxMasksPerLayer;
+
+    expect(canRenderBackgroundWithWebGL(masked(limit - 1)).supported).toBe(true);
+    const support = canRenderBackgroundWithWebGL(masked(limit));
+    expect(support.supported).toBe(false);
+    expect(support.reason).toContain("masks");
+  });
+
+  it("counts the base image against the image limit", () => {
+    const image = { source: { width: 1, height: 1, data: new Uint8ClampedArray(4) } };
+    const layers = (count: number): BackgroundArgs["layers"] =>
+      Array.from({ length: count }, () => ({ type: "image" as const, ...image }));
+    const limit = BACKGROUND_WEBGL_LIMITS.maxImages;
+
+    expect(canRenderBackgroundWithWebGL({ baseImage: image, layers: layers(limit - 1) }).supported).toBe(
+      true,
+    );
+    const support = canRenderBackgroundWithWebGL({ baseImage: image, layers: layers(limit) });
+    expect(support.supported).toBe(false);
+    expect(support.reason).toContain("images");
+  });
+});
+
+describe("background webgl uniform budget", () => {
+  it("fits the shader's uniforms within 224 vectors, a common mobile limit", () => {
+    const declarations = FRAGMENT_SHADER_SOURCE.match(/^uniform .*$/gm) ?? [];
+    const counted = FRAGMENT_SHADER_SOURCE.match(/^uniform \w+ \w+(?:\[\w+\])?;$/gm) ?? [];
+    expect(counted).toHaveLength(declarations.length);
+    // Pinned so a uniform the counter misses shows up as a changed total.
+    expect(FRAGMENT_UNIFORM_VECTORS).toBe(197);
+    expect(FRAGMENT_UNIFORM_VECTORS).toBeLessThanOrEqual(224);
+  });
+});
+
+describe("background webgl shader parity", () => {
+  it("matches the CPU simplex noise, fBm and domain warp", () => {
+    const warp = { amplitude: 60, frequency: 0.004, octaves: 3, seed: 12345 };
+    const packed = packLayerUniforms(
+      resolveBackgroundArgs({ layers: [{ type: "linear", warp }] }),
+      1920,
+      1080,
+    );
+    const shader = loadShader({
+      uLayerTransform2: toVec4s(packed.layerTransform2),
+      uLayerWarp: toVec4s(packed.layerWarp),
+    });
+
+    for (const [x, y] of grid(20, 13.7)) {
+      expect(shader.simplexNoise2D([x, y])).toBeCloseTo(simplexNoise2D(x, y), 4);
+      expect(shader.sampleFbm([x / 9, y / 9], [0, 5, 2.2, 0.45], [13, 21, 0, 0])).toBeCloseTo(
+        sampleFbm(x / 9, y / 9, 5, 2.2, 0.45, [13, 21]),
+        4,
+      );
+    }
+
+    // Displacements of up to 60 design pixels agree to a hundredth of a pixel.
+    for (const [x, y] of grid(12, 97)) {
+      const [cpuX, cpuY] = warpPoint(warp, x + 960, y + 540);
+      const [gpuX, gpuY] = shader.warpPoint(0, [x + 960, y + 540]);
+      expect(Math.abs(gpuX - cpuX)).toBeLessThan(0.01);
+      expect(Math.abs(gpuY - cpuY)).toBeLessThan(0.01);
+    }
+  });
+
+  it("matches the CPU blend modes", () => {
+    const shader = loadShader();
+    // Channels on both sides of the soft-light and dodge/burn branch points,
+    // plus grays and saturated colors for the non-separable modes.
+    const colors: [number, number, number][] = [
+      [0, 0, 0],
+      [1, 1, 1],
+      [0.5, 0.5, 0.5],
+      [0.2, 0.5, 0.9],
+      [0.9, 0.25, 0.1],
+      [0.05, 0.8, 0.3],
+      [1, 0, 0.6],
+    ];
+
+    BLEND_MODES.forEach((blendMode, code) => {
+      for (const backdrop of colors) {
+        for (const color of colors) {
+          const cpu = blendColor(backdrop, color, blendMode);
+          const gpu = shader.blendColor(backdrop, color, code);
+          cpu.forEach((channel, index) => expect(gpu[index]).toBeCloseTo(channel, 4));
+        }
+      }
+    });
+  });
 });
@@ -1,11 +1,314 @@
 import { linearToSrgb8, srgbToLinear } from "./dither";
-import type { BackgroundColorSpace, LinearRgba } from "./types";
+import { CSS_NAMED_COLORS } from "./named-colors";
+import type {
+  BackgroundColorSpace,
+  BackgroundHueInterpolation,
+  BackgroundOutputColorSpace,
+  LinearRgba,
+} from "./types";
 
 const clamp01 = (value: number): number => Math.max(0, Math.min(1, value));
 
 export const lerp = (start: number, end: number, t: number): number =>
   start + (end - start) * t;
 
+export type ColorTriplet = [number, number, number];
+export type Matrix3 = readonly [ColorTriplet, ColorTriplet, ColorTriplet];
+
+function multiplyMatrix3(matrix: Matrix3, v: ColorTriplet): ColorTriplet {
+  return [
+    matrix[0][0] * v[0] + matrix[0][1] * v[1] + matrix[0][2] * v[2],
+    matrix[1][0] * v[0] + matrix[1][1] * v[1] + matrix[1][2] * v[2],
+    matrix[2][0] * v[0] + matrix[2][1] * v[1] + matrix[2][2] * v[2],
+  ];
+}
+
+function multiplyMatrices3(a: Matrix3, b: Matrix3): Matrix3 {
+  const column = (index: number): ColorTriplet => [b[0][index], b[1][index], b[2][index]];
+  const columns = [column(0), column(1), column(2)].map((c) => multiplyMatrix3(a, c));
+  return [
+    [columns[0][0], columns[1][0], columns[2][0]],
+    [columns[0][1], columns[1][1], columns[2][1]],
+    [columns[0][2], columns[1][2], columns[2][2]],
+  ];
+}
+
+// ─── Color space matrices (CSS Color 4, §18 sample code) ────────────────────
+
+const LINEAR_SRGB_TO_XYZ: Matrix3 = [
+  [506752 / 1228815, 87881 / 245763, 12673 / 70218],
+  [87098 / 409605, 175762 / 245763, 12673 / 175545],
+  [7918 / 409605, 87881 / 737289, 1001167 / 1053270],
+];
+
+const XYZ_TO_LINEAR_SRGB: Matrix3 = [
+  [12831 / 3959, -329 / 214, -1974 / 3959],
+  [-851781 / 878810, 1648619 / 878810, 36519 / 878810],
+  [705 / 12673, -2585 / 12673, 705 / 667],
+];
+
+const LINEAR_P3_TO_XYZ: Matrix3 = [
+  [608311 / 1250200, 189793 / 714400, 198249 / 1000160],
+  [35783 / 156275, 247089 / 357200, 198249 / 2500400],
+  [0, 32229 / 714400, 5220557 / 5000800],
+];
+
+const XYZ_TO_LINEAR_P3: Matrix3 = [
+  [446124 / 178915, -333277 / 357830, -72051 / 178915],
+  [-14852 / 17905, 63121 / 35810, 423 / 17905],
+  [11844 / 330415, -50337 / 660830, 316169 / 330415],
+];
+
+const LINEAR_A98_TO_XYZ: Matrix3 = [
+  [573536 / 994567, 263643 / 1420810, 187206 / 994567],
+  [591459 / 1989134, 6239551 / 9945670, 374412 / 4972835],
+  [53769 / 1989134, 351524 / 4972835, 4929758 / 4972835],
+];
+
+const LINEAR_PROPHOTO_TO_XYZ_D50: Matrix3 = [
+  [0.7977666449006423, 0.13518129740053308, 0.0313477341283922],
+  [0.2880748288194013, 0.711835234241873, 0.00008993693872564],
+  [0, 0, 0.8251046025104602],
+];
+
+const LINEAR_REC2020_TO_XYZ: Matrix3 = [
+  [63426534 / 99577255, 20160776 / 139408157, 47086771 / 278816314],
+  [26158966 / 99577255, 472592308 / 697040785, 8267143 / 139408157],
+  [0, 19567812 / 697040785, 295819943 / 278816314],
+];
+
+/** Bradford chromatic adaptation from the D50 to the D65 white point. */
+const XYZ_D65_TO_D50: Matrix3 = [
+  [1.0479297925449969, 0.022946870601609652, -0.05019226628920524],
+  [0.02962780877005599, 0.9904344267538799, -0.017073799063418826],
+  [-0.009243040646204504, 0.015055191490298152, 0.7518742814281371],
+];
+
+const XYZ_D50_TO_D65: Matrix3 = [
+  [0.955473421488075, -0.02309845494876471, 0.06325924320057072],
+  [-0.0283697093338637, 1.0099953980813041, 0.021041441191917323],
+  [0.012314014864481998, -0.020507649298898964, 1.330365926242124],
+];
+
+/** Linear sRGB ↔ linear Display P3 (both D65, so no adaptation). */
+export const LINEAR_SRGB_TO_LINEAR_P3: Matrix3 = multiplyMatrices3(
+  XYZ_TO_LINEAR_P3,
+  LINEAR_SRGB_TO_XYZ,
+);
+export const LINEAR_P3_TO_LINEAR_SRGB: Matrix3 = multiplyMatrices3(
+  XYZ_TO_LINEAR_SRGB,
+  LINEAR_P3_TO_XYZ,
+);
+
+/** Channel spread below which an sRGB color counts as gray for HSL/HWB. */
+const ACHROMATIC_SRGB_DELTA = 1e-6;
+
+const D50_WHITE: ColorTriplet = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+const LAB_KAPPA = 24389 / 27;
+const LAB_EPSILON = 216 / 24389;
+
+// ─── Transfer functions (sign-preserving for extended range) ────────────────
+
+function srgbTransferToLinear(value: number): number {
+  const abs = Math.abs(value);
+  const linear = abs <= 0.04045 ? abs / 12.92 : Math.pow((abs + 0.055) / 1.055, 2.4);
+  return Math.sign(value) * linear;
+}
+
+function srgbTransferFromLinear(value: number): number {
+  const abs = Math.abs(value);
+  const encoded = abs <= 0.0031308 ? abs * 12.92 : 1.055 * Math.pow(abs, 1 / 2.4) - 0.055;
+  return Math.sign(value) * encoded;
+}
+
+function a98TransferToLinear(value: number): number {
+  return Math.sign(value) * Math.pow(Math.abs(value), 563 / 256);
+}
+
+function prophotoTransferToLinear(value: number): number {
+  const abs = Math.abs(value);
+  return abs <= 16 / 512 ? value / 16 : Math.sign(value) * Math.pow(abs, 1.8);
+}
+
+function rec2020TransferToLinear(value: number): number {
+  const alpha = 1.09929682680944;
+  const beta = 0.018053968510807;
+  const abs = Math.abs(value);
+  if (abs < beta * 4.5) {
+    return value / 4.5;
+  }
+  return Math.sign(value) * Math.pow((abs + alpha - 1) / alpha, 1 / 0.45);
+}
+
+// ─── Cylindrical / polar models ─────────────────────────────────────────────
+
+function normalizeHue(hue: number): number {
+  const wrapped = hue % 360;
+  return wrapped < 0 ? wrapped + 360 : wrapped;
+}
+
+/** HSL → gamma-encoded sRGB. Saturation and lightness are in [0, 1]. */
+function hslToSrgb(hue: number, saturation: number, lightness: number): ColorTriplet {
+  const h = normalizeHue(hue);
+  const amount = saturation * Math.min(lightness, 1 - lightness);
+  const channel = (n: number): number => {
+    const k = (n + h / 30) % 12;
+    return lightness - amount * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+  return [channel(0), channel(8), channel(4)];
+}
+
+/** HWB → gamma-encoded sRGB. Whiteness and blackness are in [0, 1]. */
+function hwbToSrgb(hue: number, whiteness: number, blackness: number): ColorTriplet {
+  if (whiteness + blackness >= 1) {
+    const gray = whiteness / (whiteness + blackness);
+    return [gray, gray, gray];
+  }
+
+  const pure = hslToSrgb(hue, 1, 0.5);
+  const scale = 1 - whiteness - blackness;
+  return [
+    pure[0] * scale + whiteness,
+    pure[1] * scale + whiteness,
+    pure[2] * scale + whiteness,
+  ];
+}
+
+/**
+ * Gamma-encoded sRGB → HSL (CSS Color 4 §7.1 sample code). Saturation and
+ * lightness are in [0, 1]; the hue is `NaN` for grays.
+ */
+function srgbToHsl(rgb: ColorTriplet): ColorTriplet {
+  const [red, green, blue] = rgb;
+  const max = Math.max(red, green, blue);
+  const min = Math.min(red, green, blue);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+
+  let hue = Number.NaN;
+  let saturation = 0;
+  if (delta > ACHROMATIC_SRGB_DELTA) {
+    saturation =
+      lightness === 0 || lightness === 1
+        ? 0
+        : (max - lightness) / Math.min(lightness, 1 - lightness);
+
+    if (max === red) {
+      hue = (green - blue) / delta + (green < blue ? 6 : 0);
+    } else if (max === green) {
+      hue = (blue - red) / delta + 2;
+    } else {
+      hue = (red - green) / delta + 4;
+    }
+    hue *= 60;
+  }
+
+  // Far out-of-gamut colors can produce a negative saturation.
+  if (saturation < 0) {
+    hue += 180;
+    saturation = -saturation;
+  }
+
+  return [Number.isNaN(hue) ? hue : normalizeHue(hue), saturation, lightness];
+}
+
+/** Gamma-encoded sRGB → HWB. Whiteness and blackness are in [0, 1]. */
+function srgbToHwb(rgb: ColorTriplet): ColorTriplet {
+  const whiteness = Math.min(rgb[0], rgb[1], rgb[2]);
+  const blackness = 1 - Math.max(rgb[0], rgb[1], rgb[2]);
+  const hue =
+    whiteness + blackness >= 1 - ACHROMATIC_SRGB_DELTA ? Number.NaN : srgbToHsl(rgb)[0];
+  return [hue, whiteness, blackness];
+}
+
+function polarToRectangular(lightness: number, chroma: number, hue: number): ColorTriplet {
+  const rad = (hue * Math.PI) / 180;
+  return [lightness, chroma * Math.cos(rad), chroma * Math.sin(rad)];
+}
+
+/** CIE Lab (D50) → XYZ (D50). */
+function labToXyzD50(lab: ColorTriplet): ColorTriplet {
+  const [l, a, b] = lab;
+  const f1 = (l + 16) / 116;
+  const f0 = a / 500 + f1;
+  const f2 = f1 - b / 200;
+
+  const x = f0 * f0 * f0 > LAB_EPSILON ? f0 * f0 * f0 : (116 * f0 - 16) / LAB_KAPPA;
+  const y = l > LAB_KAPPA * LAB_EPSILON ? f1 * f1 * f1 : l / LAB_KAPPA;
+  const z = f2 * f2 * f2 > LAB_EPSILON ? f2 * f2 * f2 : (116 * f2 - 16) / LAB_KAPPA;
+
+  return [x * D50_WHITE[0], y * D50_WHITE[1], z * D50_WHITE[2]];
+}
+
+/** XYZ (D50) → CIE Lab (D50). */
+function xyzD50ToLab(xyz: ColorTriplet): ColorTriplet {
+  const f = (value: number): number =>
+    value > LAB_EPSILON ? Math.cbrt(value) : (LAB_KAPPA * value + 16) / 116;
+  const f0 = f(xyz[0] / D50_WHITE[0]);
+  const f1 = f(xyz[1] / D50_WHITE[1]);
+  const f2 = f(xyz[2] / D50_WHITE[2]);
+
+  return [116 * f1 - 16, 500 * (f0 - f1), 200 * (f1 - f2)];
+}
+
+function xyzD50ToLinearSrgb(xyz: ColorTriplet): ColorTriplet {
+  return multiplyMatrix3(XYZ_TO_LINEAR_SRGB, multiplyMatrix3(XYZ_D50_TO_D65, xyz));
+}
+
+function oklabToLinearTriplet(lab: ColorTriplet): ColorTriplet {
+  const [l, a, b] = lab;
+
+  const lPrime = l + 0.3963377774 * a + 0.2158037573 * b;
+  const mPrime = l - 0.1055613458 * a - 0.0638541728 * b;
+  const sPrime = l - 0.0894841775 * a - 1.291485548 * b;
+
+  const l3 = lPrime * lPrime * lPrime;
+  const m3 = mPrime * mPrime * mPrime;
+  const s3 = sPrime * sPrime * sPrime;
+
+  return [
+    +4.0767416621 * l3 - 3.3077115913 * m3 + 0.2309699292 * s3,
+    -1.2684380046 * l3 + 2.6097574011 * m3 - 0.3413193965 * s3,
+    -0.0041960863 * l3 - 0.7034186147 * m3 + 1.707614701 * s3,
+  ];
+}
+
+// ─── CSS Color Level 4 parsing ──────────────────────────────────────────────
+
+type ColorComponent =
+  | { kind: "none" }
+  | { kind: "number"; value: number }
+  | { kind: "percentage"; value: number }
+  | { kind: "angle"; value: number };
+
+interface ColorArguments {
+  components: string[];
+  alpha: string | undefined;
+  legacy: boolean;
+}
+
+const COMPONENT_PATTERN =
+  /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|grad|rad|turn)?$/i;
+
+const ANGLE_TO_DEGREES: Record<string, number> = {
+  deg: 1,
+  grad: 360 / 400,
+  rad: 180 / Math.PI,
+  turn: 360,
+};
+
+const PREDEFINED_COLOR_SPACES = [
+  "srgb",
+  "srgb-linear",
+  "display-p3",
+  "a98-rgb",
+  "prophoto-rgb",
+  "rec2020",
+  "xyz",
+  "xyz-d50",
+  "xyz-d65",
+];
+
 function expandHexShorthand(hex: string): string {
   if (hex.length !== 3 && hex.length !== 4) {
     return hex;
@@ -40,17 +343,429 @@ function parseHexToRgbaBytes(input: string): [number, number, number, number] {
   return [r, g, b, a];
 }
 
-export function parseColorToLinearRgba(input: string): LinearRgba {
-  const [r, g, b, a] = parseHexToRgbaBytes(input);
+function parseComponent(token: string, input: string): ColorComponent {
+  if (token.toLowerCase() === "none") {
+    return { kind: "none" };
+  }
+
+  const match = COMPONENT_PATTERN.exec(token);
+  if (!match) {
+    throw new Error(`Color "${input}" has an invalid component "${token}".`);
+  }
+
+  const value = Number.parseFloat(match[1]);
+  const unit = match[2]?.toLowerCase();
+
+  if (!unit) {
+    return { kind: "number", value };
+  }
+
+  if (unit === "%") {
+    return { kind: "percentage", value };
+  }
+
+  return { kind: "angle", value: value * ANGLE_TO_DEGREES[unit] };
+}
+
+function splitColorArguments(fn: string, body: string, input: string): ColorArguments {
+  if (body.includes(",")) {
+    if (body.includes("/")) {
+      throw new Error(
+        `Color "${input}" mixes comma-separated and "/" alpha syntax.`,
+      );
+    }
+
+    const parts = body.split(",").map((part) => part.trim());
+    const empty = parts.findIndex((part) => part.length === 0 || /\s/.test(part));
+    if (empty !== -1) {
+      throw new Error(
+        `Color "${input}" has an invalid component "${parts[empty]}" in ${fn}().`,
+      );
+    }
+
+    if (parts.length !== 3 && parts.length !== 4) {
+      throw new Error(
+        `Color "${input}" expects 3 or 4 comma-separated components in ${fn}(), received ${parts.length}.`,
+      );
+    }
+
+    return { components: parts.slice(0, 3), alpha: parts[3], legacy: true };
+  }
+
+  const slashParts = body.split("/");
+  if (slashParts.length > 2) {
+    throw new Error(`Color "${input}" has more than one "/" in ${fn}().`);
+  }
+
+  const components = slashParts[0].trim().split(/\s+/).filter(Boolean);
+  let alpha: string | undefined;
+
+  if (slashParts.length === 2) {
+    alpha = slashParts[1].trim();
+    if (!alpha || /\s/.test(alpha)) {
+      throw new Error(
+        `Color "${input}" has an invalid alpha "${alpha}" in ${fn}().`,
+      );
+    }
+  }
+
+  return { components, alpha, legacy: false };
+}
+
+function expectComponentCount(
+  fn: string,
+  components: string[],
+  count: number,
+  input: string,
+): void {
+  if (components.length !== count) {
+    throw new Error(
+      `Color "${input}" expects ${count} components in ${fn}(), received ${components.length}.`,
+    );
+  }
+}
+
+/**
+ * Resolve a non-hue channel. Plain numbers are taken as-is; percentages map
+ * 100% onto `percentReference`. `none` resolves to 0.
+ */
+function resolveChannel(
+  fn: string,
+  token: string,
+  percentReference: number,
+  input: string,
+  allowed: { number: boolean; percentage: boolean } = {
+    number: true,
+    percentage: true,
+  },
+): number {
+  const component = parseComponent(token, input);
+
+  if (component.kind === "none") {
+    return 0;
+  }
+
+  if (component.kind === "number" && allowed.number) {
+    return component.value;
+  }
+
+  if (component.kind === "percentage" && allowed.percentage) {
+    return (component.value / 100) * percentReference;
+  }
+
+  throw new Error(`Color "${input}" has an invalid ${fn}() channel "${token}".`);
+}
+
+function resolveHue(fn: string, token: string, input: string): number {
+  const component = parseComponent(token, input);
+
+  if (component.kind === "none") {
+    return 0;
+  }
+
+  if (component.kind === "number" || component.kind === "angle") {
+    return component.value;
+  }
+
+  throw new Error(`Color "${input}" has an invalid ${fn}() hue "${token}".`);
+}
+
+function resolveAlpha(fn: string, token: string | undefined, input: string): number {
+  if (token === undefined) {
+    return 1;
+  }
+
+  const component = parseComponent(token, input);
+
+  if (component.kind === "none") {
+    return 0;
+  }
+
+  if (component.kind === "number") {
+    return clamp01(component.value);
+  }
+
+  if (component.kind === "percentage") {
+    return clamp01(component.value / 100);
+  }
+
+  throw new Error(`Color "${input}" has an invalid ${fn}() alpha "${token}".`);
+}
+
+function rejectNoneInLegacy(fn: string, args: ColorArguments, input: string): void {
+  const tokens = args.alpha === undefined ? args.components : [...args.components, args.alpha];
+  const none = tokens.find((token) => token.toLowerCase() === "none");
+  if (none !== undefined) {
+    throw new Error(
+      `Color "${input}" uses "none" in comma-separated ${fn}() syntax, which only accepts numbers.`,
+    );
+  }
+}
+
+function parseRgbFunction(fn: string, args: ColorArguments, input: string): LinearRgba {
+  expectComponentCount(fn, args.components, 3, input);
+
+  if (args.legacy) {
+    rejectNoneInLegacy(fn, args, input);
+    const percentages = args.components.map((token) => token.endsWith("%"));
+    if (percentages.some((isPercentage) => isPercentage !== percentages[0])) {
+      throw new Error(
+        `Color "${input}" mixes numbers and percentages in comma-separated ${fn}() syntax.`,
+      );
+    }
+  }
+
+  const [r, g, b] = args.components.map(
+    (token) => clamp01(resolveChannel(fn, token, 255, input) / 255),
+  );
 
   return {
-    r: srgbToLinear(r),
-    g: srgbToLinear(g),
-    b: srgbToLinear(b),
-    a: a / 255,
+    r: srgbTransferToLinear(r),
+    g: srgbTransferToLinear(g),
+    b: srgbTransferToLinear(b),
+    a: resolveAlpha(fn, args.alpha, input),
   };
 }
 
+function parseHslOrHwbFunction(
+  fn: string,
+  args: ColorArguments,
+  input: string,
+): LinearRgba {
+  expectComponentCount(fn, args.components, 3, input);
+
+  const isHwb = fn === "hwb";
+  if (args.legacy) {
+    if (isHwb) {
+      throw new Error(`Color "${input}" uses comma-separated syntax, which hwb() does not support.`);
+    }
+    rejectNoneInLegacy(fn, args, input);
+  }
+
+  const [hueToken, firstToken, secondToken] = args.components;
+  const percentOnly = { number: !args.legacy, percentage: true };
+  const hue = resolveHue(fn, hueToken, input);
+  const first = clamp01(resolveChannel(fn, firstToken, 100, input, percentOnly) / 100);
+  const second = clamp01(resolveChannel(fn, secondToken, 100, input, percentOnly) / 100);
+
+  const srgb = isHwb ? hwbToSrgb(hue, first, second) : hslToSrgb(hue, first, second);
+
+  return {
+    r: srgbTransferToLinear(srgb[0]),
+    g: srgbTransferToLinear(srgb[1]),
+    b: srgbTransferToLinear(srgb[2]),
+    a: resolveAlpha(fn, args.alpha, input),
+  };
+}
+
+function parseLabFamilyFunction(
+  fn: string,
+  args: ColorArguments,
+  input: string,
+): LinearRgba {
+  expectComponentCount(fn, args.components, 3, input);
+
+  const [first, second, third] = args.components;
+  const isOk = fn.startsWith("ok");
+  const isPolar = fn.endsWith("lch");
+  const lightnessRange = isOk ? 1 : 100;
+  const chromaReference = isOk ? 0.4 : isPolar ? 150 : 125;
+
+  const lightness = Math.max(
+    0,
+    Math.min(lightnessRange, resolveChannel(fn, first, lightnessRange, input)),
+  );
+
+  let lab: ColorTriplet;
+  if (isPolar) {
+    const chroma = Math.max(0, resolveChannel(fn, second, chromaReference, input));
+    lab = polarToRectangular(lightness, chroma, resolveHue(fn, third, input));
+  } else {
+    lab = [
+      lightness,
+      resolveChannel(fn, second, chromaReference, input),
+      resolveChannel(fn, third, chromaReference, input),
+    ];
+  }
+
+  const linear = isOk ? oklabToLinearTriplet(lab) : xyzD50ToLinearSrgb(labToXyzD50(lab));
+
+  return {
+    r: linear[0],
+    g: linear[1],
+    b: linear[2],
+    a: resolveAlpha(fn, args.alpha, input),
+  };
+}
+
+function predefinedToLinearSrgb(space: string, values: ColorTriplet): ColorTriplet {
+  switch (space) {
+    case "srgb":
+      return [
+        srgbTransferToLinear(values[0]),
+        srgbTransferToLinear(values[1]),
+        srgbTransferToLinear(values[2]),
+      ];
+    case "srgb-linear":
+      return values;
+    case "display-p3":
+      return multiplyMatrix3(
+        XYZ_TO_LINEAR_SRGB,
+        multiplyMatrix3(LINEAR_P3_TO_XYZ, [
+          srgbTransferToLinear(values[0]),
+          srgbTransferToLinear(values[1]),
+          srgbTransferToLinear(values[2]),
+        ]),
+      );
+    case "a98-rgb":
+      return multiplyMatrix3(
+        XYZ_TO_LINEAR_SRGB,
+        multiplyMatrix3(LINEAR_A98_TO_XYZ, [
+          a98TransferToLinear(values[0]),
+          a98TransferToLinear(values[1]),
+          a98TransferToLinear(values[2]),
+        ]),
+      );
+    case "prophoto-rgb":
+      return xyzD50ToLinearSrgb(
+        multiplyMatrix3(LINEAR_PROPHOTO_TO_XYZ_D50, [
+          prophotoTransferToLinear(values[0]),
+          prophotoTransferToLinear(values[1]),
+          prophotoTransferToLinear(values[2]),
+        ]),
+      );
+    case "rec2020":
+      return multiplyMatrix3(
+        XYZ_TO_LINEAR_SRGB,
+        multiplyMatrix3(LINEAR_REC2020_TO_XYZ, [
+          rec2020TransferToLinear(values[0]),
+          rec2020TransferToLinear(values[1]),
+          rec2020TransferToLinear(values[2]),
+        ]),
+      );
+    case "xyz-d50":
+      return xyzD50ToLinearSrgb(values);
+    default:
+      // "xyz" and "xyz-d65"
+      return multiplyMatrix3(XYZ_TO_LINEAR_SRGB, values);
+  }
+}
+
+function parseColorFunction(args: ColorArguments, input: string): LinearRgba {
+  if (args.legacy) {
+    throw new Error(`Color "${input}" uses comma-separated syntax, which color() does not support.`);
+  }
+
+  const [spaceToken, ...channels] = args.components;
+  const space = spaceToken?.toLowerCase();
+
+  if (!space || !PREDEFINED_COLOR_SPACES.includes(space)) {
+    throw new Error(
+      `Color "${input}" has an unsupported color() space "${spaceToken ?? ""}". ` +
+        `Use one of: ${PREDEFINED_COLOR_SPACES.join(", ")}.`,
+    );
+  }
+
+  expectComponentCount("color", channels, 3, input);
+
+  const values = channels.map((token) => resolveChannel("color", token, 1, input));
+  const linear = predefinedToLinearSrgb(space, values as ColorTriplet);
+
+  return {
+    r: linear[0],
+    g: linear[1],
+    b: linear[2],
+    a: resolveAlpha("color", args.alpha, input),
+  };
+}
+
+/**
+ * Parse any CSS Color Level 4 `<color>` into linear-light sRGB.
+ *
+ * Accepts hex notation, named colors, `transparent`, and the `rgb()`,
+ * `rgba()`, `hsl()`, `hsla()`, `hwb()`, `lab()`, `lch()`, `oklab()`,
+ * `oklch()` and `color()` functions in both modern and legacy syntax.
+ *
+ * Channels are **not** clamped: colors outside the sRGB gamut (wide-gamut
+ * `color(display-p3 …)`, high-chroma `oklch(…)`) keep components below 0 or
+ * above 1 so callers can gamut-map or encode them for a wider output space.
+ */
+export function parseCssColor(input: string): LinearRgba {
+  const source = input.trim();
+
+  if (source.startsWith("#")) {
+    const [r, g, b, a] = parseHexToRgbaBytes(source);
+    return {
+      r: srgbToLinear(r),
+      g: srgbToLinear(g),
+      b: srgbToLinear(b),
+      a: a / 255,
+    };
+  }
+
+  const keyword = source.toLowerCase();
+
+  if (keyword === "transparent") {
+    return { r: 0, g: 0, b: 0, a: 0 };
+  }
+
+  const named = CSS_NAMED_COLORS[keyword];
+  if (named) {
+    return {
+      r: srgbToLinear(named[0]),
+      g: srgbToLinear(named[1]),
+      b: srgbToLinear(named[2]),
+      a: 1,
+    };
+  }
+
+  const functionMatch = /^([a-z0-9-]+)\(([^()]*)\)$/i.exec(source);
+  if (!functionMatch) {
+    if (/^[0-9a-f]{3,8}$/i.test(source)) {
+      // Bare hex without "#" was accepted historically.
+      return parseCssColor(`#${source}`);
+    }
+
+    if (/^[a-z-]+$/i.test(source)) {
+      throw new Error(`Unknown color name "${input}".`);
+    }
+
+    throw new Error(
+      `Unsupported color format "${input}". Use hex, a named color, or a CSS color function.`,
+    );
+  }
+
+  const fn = functionMatch[1].toLowerCase();
+  const args = splitColorArguments(fn, functionMatch[2], input);
+
+  switch (fn) {
+    case "rgb":
+    case "rgba":
+      return parseRgbFunction(fn, args, input);
+    case "hsl":
+    case "hsla":
+    case "hwb":
+      return parseHslOrHwbFunction(fn, args, input);
+    case "lab":
+    case "lch":
+    case "oklab":
+    case "oklch":
+      return parseLabFamilyFunction(fn, args, input);
+    case "color":
+      return parseColorFunction(args, input);
+    default:
+      throw new Error(`Color "${input}" uses unsupported function "${fn}()".`);
+  }
+}
+
+/**
+ * Parse a CSS color into linear sRGB, clamped to the sRGB gamut.
+ * See {@link parseCssColor} for the accepted syntax.
+ */
+export function parseColorToLinearRgba(input: string): LinearRgba {
+  return clampLinearRgba(parseCssColor(input));
+}
+
 export function linearRgbaToHex(color: LinearRgba): string {
   const r = Math.round(clamp01(linearToSrgb8(color.r) / 255) * 255);
   const g = Math.round(clamp01(linearToSrgb8(color.g) / 255) * 255);
@@ -71,6 +786,39 @@ export function clampLinearRgba(color: LinearRgba): LinearRgba {
   };
 }
 
+/** Convert linear sRGB into the linear space of `outputColorSpace`. */
+export function linearSrgbToOutput(
+  color: LinearRgba,
+  outputColorSpace: BackgroundOutputColorSpace,
+): LinearRgba {
+  if (outputColorSpace === "srgb") {
+    return color;
+  }
+
+  const [r, g, b] = multiplyMatrix3(LINEAR_SRGB_TO_LINEAR_P3, [color.r, color.g, color.b]);
+  return { r, g, b, a: color.a };
+}
+
+/** Convert a color in the linear space of `outputColorSpace` back to linear sRGB. */
+export function outputToLinearSrgb(
+  color: LinearRgba,
+  outputColorSpace: BackgroundOutputColorSpace,
+): LinearRgba {
+  if (outputColorSpace === "srgb") {
+    return color;
+  }
+
+  const [r, g, b] = multiplyMatrix3(LINEAR_P3_TO_LINEAR_SRGB, [color.r, color.g, color.b]);
+  return { r, g, b, a: color.a };
+}
+
+/** Relative-luminance (Y) weights for the linear space of `outputColorSpace`. */
+export function getLuminanceWeights(
+  outputColorSpace: BackgroundOutputColorSpace,
+): ColorTriplet {
+  return outputColorSpace === "srgb" ? [0.2126, 0.7152, 0.0722] : [0.229, 0.6917, 0.0793];
+}
+
 export type Oklab = [number, number, number];
 
 export function linearRgbToOklab(color: LinearRgba): Oklab {
@@ -90,22 +838,339 @@ export function linearRgbToOklab(color: LinearRgba): Oklab {
 }
 
 export function oklabToLinearRgb(lab: Oklab, alpha = 1): LinearRgba {
-  const [l, a, b] = lab;
+  return clampLinearRgba(oklabToExtendedLinearRgb(lab, alpha));
+}
 
-  const lPrime = l + 0.3963377774 * a + 0.2158037573 * b;
-  const mPrime = l - 0.1055613458 * a - 0.0638541728 * b;
-  const sPrime = l - 0.0894841775 * a - 1.291485548 * b;
+/** Oklab → linear sRGB without clamping; out-of-gamut channels leave [0, 1]. */
+export function oklabToExtendedLinearRgb(lab: Oklab, alpha = 1): LinearRgba {
+  const [r, g, b] = oklabToLinearTriplet(lab);
+  return { r, g, b, a: alpha };
+}
 
-  const l3 = lPrime * lPrime * lPrime;
-  const m3 = mPrime * mPrime * mPrime;
-  const s3 = sPrime * sPrime * sPrime;
+// ─── Gamut mapping (CSS Color 4, §13.2) ─────────────────────────────────────
+
+const GAMUT_TOLERANCE = 1e-5;
+const GAMUT_JND = 0.02;
+const GAMUT_EPSILON = 0.0001;
+
+export function isLinearRgbInGamut(color: LinearRgba): boolean {
+  return (
+    color.r >= -GAMUT_TOLERANCE &&
+    color.r <= 1 + GAMUT_TOLERANCE &&
+    color.g >= -GAMUT_TOLERANCE &&
+    color.g <= 1 + GAMUT_TOLERANCE &&
+    color.b >= -GAMUT_TOLERANCE &&
+    color.b <= 1 + GAMUT_TOLERANCE
+  );
+}
+
+function deltaEOk(a: Oklab, b: Oklab): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
+
+/**
+ * Map a linear color into the gamut of `outputColorSpace` with the CSS
+ * Color 4 algorithm: binary-search OKLCH chroma at constant lightness and
+ * hue, accepting the clipped candidate once it is within one JND
+ * (ΔEOK 0.02) of the chroma-reduced color. `color` and the result are in
+ * the linear space of `outputColorSpace`.
+ */
+export function gamutMapLinearRgba(
+  color: LinearRgba,
+  outputColorSpace: BackgroundOutputColorSpace = "srgb",
+): LinearRgba {
+  if (isLinearRgbInGamut(color)) {
+    return clampLinearRgba(color);
+  }
+
+  const toOklab = (linear: LinearRgba): Oklab =>
+    linearRgbToOklab(outputToLinearSrgb(linear, outputColorSpace));
+
+  const lab = toOklab(color);
+  if (lab[0] >= 1) {
+    return { r: 1, g: 1, b: 1, a: clamp01(color.a) };
+  }
+  if (lab[0] <= 0) {
+    return { r: 0, g: 0, b: 0, a: clamp01(color.a) };
+  }
+
+  let clipped = clampLinearRgba(color);
+  if (deltaEOk(toOklab(clipped), lab) < GAMUT_JND) {
+    return clipped;
+  }
+
+  const chroma = Math.hypot(lab[1], lab[2]);
+  const hueA = lab[1] / chroma;
+  const hueB = lab[2] / chroma;
+  let minChroma = 0;
+  let maxChroma = chroma;
+  let minInGamut = true;
+
+  while (maxChroma - minChroma > GAMUT_EPSILON) {
+    const candidateChroma = (minChroma + maxChroma) / 2;
+    const candidate: Oklab = [lab[0], hueA * candidateChroma, hueB * candidateChroma];
+    const linear = linearSrgbToOutput(
+      oklabToExtendedLinearRgb(candidate, color.a),
+      outputColorSpace,
+    );
+
+    if (minInGamut && isLinearRgbInGamut(linear)) {
+      minChroma = candidateChroma;
+      continue;
+    }
+
+    clipped = clampLinearRgba(linear);
+    const error = deltaEOk(toOklab(clipped), candidate);
+
+    if (error < GAMUT_JND) {
+      if (GAMUT_JND - error < GAMUT_EPSILON) {
+        break;
+      }
+      minInGamut = false;
+      minChroma = candidateChroma;
+    } else {
+      maxChroma = candidateChroma;
+    }
+  }
+
+  return clipped;
+}
+
+export type Oklch = [number, number, number];
+
+/**
+ * Chroma below which a color is treated as achromatic. Its hue is then
+ * "powerless" (CSS Color 4 §12.4) and borrows the other endpoint's hue, so
+ * fades to white/black/gray don't swing through unrelated hues.
+ */
+const ACHROMATIC_CHROMA = 1e-4;
+
+export function oklabToOklch(lab: Oklab): Oklch {
+  const chroma = Math.hypot(lab[1], lab[2]);
+  const hue =
+    chroma > ACHROMATIC_CHROMA
+      ? normalizeHue((Math.atan2(lab[2], lab[1]) * 180) / Math.PI)
+      : Number.NaN;
+  return [lab[0], chroma, hue];
+}
+
+export function oklchToOklab(lch: Oklch): Oklab {
+  return polarToRectangular(lch[0], lch[1], Number.isNaN(lch[2]) ? 0 : lch[2]);
+}
+
+/**
+ * Interpolate two hues in degrees following the CSS Color 4
+ * hue-interpolation fixups. `NaN` marks a powerless hue.
+ */
+export function interpolateHue(
+  startHue: number,
+  endHue: number,
+  t: number,
+  method: BackgroundHueInterpolation,
+): number {
+  if (Number.isNaN(startHue) && Number.isNaN(endHue)) {
+    return Number.NaN;
+  }
+
+  let h1 = Number.isNaN(startHue) ? endHue : startHue;
+  let h2 = Number.isNaN(endHue) ? startHue : endHue;
+  const delta = h2 - h1;
+
+  if (method === "shorter") {
+    if (delta > 180) {
+      h1 += 360;
+    } else if (delta < -180) {
+      h2 += 360;
+    }
+  } else if (method === "longer") {
+    if (delta > 0 && delta < 180) {
+      h1 += 360;
+    } else if (delta > -180 && delta <= 0) {
+      h2 += 360;
+    }
+  } else if (method === "increasing") {
+    if (delta < 0) {
+      h2 += 360;
+    }
+  } else if (delta > 0) {
+    h1 += 360;
+  }
 
-  return clampLinearRgba({
-    r: +4.0767416621 * l3 - 3.3077115913 * m3 + 0.2309699292 * s3,
-    g: -1.2684380046 * l3 + 2.6097574011 * m3 - 0.3413193965 * s3,
-    b: -0.0041960863 * l3 - 0.7034186147 * m3 + 1.707614701 * s3,
-    a: alpha,
-  });
+  return normalizeHue(lerp(h1, h2, t));
+}
+
+export function interpolateOklch(
+  start: Oklch,
+  end: Oklch,
+  t: number,
+  method: BackgroundHueInterpolation,
+): Oklch {
+  return [
+    lerp(start[0], end[0], t),
+    lerp(start[1], end[1], t),
+    interpolateHue(start[2], end[2], t, method),
+  ];
+}
+
+/** CIE LCH chroma below which the hue is powerless, mirroring ACHROMATIC_CHROMA. */
+const LCH_ACHROMATIC_CHROMA = 0.0015;
+
+function rectangularToPolar(lab: ColorTriplet, achromaticChroma: number): ColorTriplet {
+  const chroma = Math.hypot(lab[1], lab[2]);
+  const hue =
+    chroma > achromaticChroma
+      ? normalizeHue((Math.atan2(lab[2], lab[1]) * 180) / Math.PI)
+      : Number.NaN;
+  return [lab[0], chroma, hue];
+}
+
+/**
+ * Index of the hue component for polar interpolation spaces, or -1 when
+ * every component interpolates linearly.
+ */
+export function getHueComponentIndex(colorSpace: BackgroundColorSpace): number {
+  switch (colorSpace) {
+    case "oklch":
+    case "lch":
+      return 2;
+    case "hsl":
+    case "hwb":
+      return 0;
+    default:
+      return -1;
+  }
+}
+
+/**
+ * Convert linear sRGB into the coordinates of a CSS interpolation space:
+ * gamma-encoded channels for `srgb`, D65 XYZ for `xyz`, D50 CIE Lab for
+ * `lab`, and `[H, S, L]` / `[H, W, B]` with fractions for `hsl` / `hwb`.
+ * Hues are in degrees, `NaN` when powerless.
+ */
+export function linearSrgbToInterpolationSpace(
+  color: LinearRgba,
+  colorSpace: BackgroundColorSpace,
+): ColorTriplet {
+  const linear: ColorTriplet = [color.r, color.g, color.b];
+
+  switch (colorSpace) {
+    case "linear-srgb":
+      return linear;
+    case "srgb":
+      return [
+        srgbTransferFromLinear(linear[0]),
+        srgbTransferFromLinear(linear[1]),
+        srgbTransferFromLinear(linear[2]),
+      ];
+    case "oklab":
+      return linearRgbToOklab(color);
+    case "oklch":
+      return oklabToOklch(linearRgbToOklab(color));
+    case "xyz":
+      return multiplyMatrix3(LINEAR_SRGB_TO_XYZ, linear);
+    case "lab":
+    case "lch": {
+      const lab = xyzD50ToLab(
+        multiplyMatrix3(XYZ_D65_TO_D50, multiplyMatrix3(LINEAR_SRGB_TO_XYZ, linear)),
+      );
+      return colorSpace === "lab" ? lab : rectangularToPolar(lab, LCH_ACHROMATIC_CHROMA);
+    }
+    case "hsl":
+    case "hwb": {
+      const srgb = linearSrgbToInterpolationSpace(color, "srgb");
+      return colorSpace === "hsl" ? srgbToHsl(srgb) : srgbToHwb(srgb);
+    }
+  }
+}
+
+/** Inverse of {@link linearSrgbToInterpolationSpace}; the result is unclamped. */
+export function interpolationSpaceToLinearSrgb(
+  coords: ColorTriplet,
+  colorSpace: BackgroundColorSpace,
+): ColorTriplet {
+  const hueIndex = getHueComponentIndex(colorSpace);
+  const hue = hueIndex >= 0 && Number.isNaN(coords[hueIndex]) ? 0 : coords[hueIndex];
+
+  switch (colorSpace) {
+    case "linear-srgb":
+      return coords;
+    case "srgb":
+      return [
+        srgbTransferToLinear(coords[0]),
+        srgbTransferToLinear(coords[1]),
+        srgbTransferToLinear(coords[2]),
+      ];
+    case "oklab":
+      return oklabToLinearTriplet(coords);
+    case "oklch":
+      return oklabToLinearTriplet(polarToRectangular(coords[0], coords[1], hue));
+    case "xyz":
+      return multiplyMatrix3(XYZ_TO_LINEAR_SRGB, coords);
+    case "lab":
+      return xyzD50ToLinearSrgb(labToXyzD50(coords));
+    case "lch":
+      return xyzD50ToLinearSrgb(labToXyzD50(polarToRectangular(coords[0], coords[1], hue)));
+    case "hsl":
+    case "hwb": {
+      const srgb =
+        colorSpace === "hsl"
+          ? hslToSrgb(hue, coords[1], coords[2])
+          : hwbToSrgb(hue, coords[1], coords[2]);
+      return interpolationSpaceToLinearSrgb(srgb, "srgb");
+    }
+  }
+}
+
+/**
+ * Interpolate two sets of interpolation-space coordinates. Polar spaces
+ * route their hue through {@link interpolateHue}.
+ */
+export function interpolateCoords(
+  start: ColorTriplet,
+  end: ColorTriplet,
+  t: number,
+  colorSpace: BackgroundColorSpace,
+  hueInterpolation: BackgroundHueInterpolation = "shorter",
+): ColorTriplet {
+  const hueIndex = getHueComponentIndex(colorSpace);
+  const mixed: ColorTriplet = [
+    lerp(start[0], end[0], t),
+    lerp(start[1], end[1], t),
+    lerp(start[2], end[2], t),
+  ];
+
+  if (hueIndex >= 0) {
+    mixed[hueIndex] = interpolateHue(start[hueIndex], end[hueIndex], t, hueInterpolation);
+  }
+
+  return mixed;
+}
+
+/**
+ * Multiply every non-hue component by `alpha` (CSS Color 4 §12.3). Hues are
+ * never premultiplied.
+ */
+export function premultiplyCoords(
+  coords: ColorTriplet,
+  alpha: number,
+  colorSpace: BackgroundColorSpace,
+): ColorTriplet {
+  const hueIndex = getHueComponentIndex(colorSpace);
+  return coords.map((value, index) => (index === hueIndex ? value : value * alpha)) as ColorTriplet;
+}
+
+/** Inverse of {@link premultiplyCoords}; fully transparent colors are returned as-is. */
+export function unpremultiplyCoords(
+  coords: ColorTriplet,
+  alpha: number,
+  colorSpace: BackgroundColorSpace,
+): ColorTriplet {
+  if (alpha <= 0) {
+    return coords;
+  }
+
+  const hueIndex = getHueComponentIndex(colorSpace);
+  return coords.map((value, index) => (index === hueIndex ? value : value / alpha)) as ColorTriplet;
 }
 
 export function interpolateLinearRgba(
@@ -113,6 +1178,7 @@ export function interpolateLinearRgba(
   end: LinearRgba,
   t: number,
   colorSpace: BackgroundColorSpace,
+  hueInterpolation: BackgroundHueInterpolation = "shorter",
 ): LinearRgba {
   const tt = clamp01(t);
 
@@ -125,15 +1191,16 @@ export function interpolateLinearRgba(
     };
   }
 
-  const startLab = linearRgbToOklab(start);
-  const endLab = linearRgbToOklab(end);
-
-  return oklabToLinearRgb(
-    [
-      lerp(startLab[0], endLab[0], tt),
-      lerp(startLab[1], endLab[1], tt),
-      lerp(startLab[2], endLab[2], tt),
-    ],
-    lerp(start.a, end.a, tt),
+  const [r, g, b] = interpolationSpaceToLinearSrgb(
+    interpolateCoords(
+      linearSrgbToInterpolationSpace(start, colorSpace),
+      linearSrgbToInterpolationSpace(end, colorSpace),
+      tt,
+      colorSpace,
+      hueInterpolation,
+    ),
+    colorSpace,
   );
+
+  return clampLinearRgba({ r, g, b, a: lerp(start.a, end.a, tt) });
 }
@@ -1,36 +1,121 @@
 import { getDitherValue, ign, linearToSrgb8 } from "./dither";
 import {
   clampLinearRgba,
+  gamutMapLinearRgba,
+  getLuminanceWeights,
+  interpolateCoords,
+  interpolationSpaceToLinearSrgb,
+  premultiplyCoords,
+  unpremultiplyCoords,
+  isLinearRgbInGamut,
   lerp,
   linearRgbToOklab,
-  oklabToLinearRgb,
-  parseColorToLinearRgba,
+  linearSrgbToInterpolationSpace,
+  linearSrgbToOutput,
+  oklabToExtendedLinearRgb,
+  outputToLinearSrgb,
+  parseCssColor,
+  type ColorTriplet,
 } from "./color";
 import { getPresetDefaults } from "./defaults";
-import { clamp, sampleLayerProgress } from "./math";
+import {
+  prepareImage,
+  resolveImagePlacement,
+  sampleImage,
+  type PreparedImage,
+} from "./image";
+import {
+  applySpreadMethod,
+  clamp,
+  resolveLayerGeometry,
+  resolveLayerTransform,
+  sampleFreeformWeights,
+  sampleLayerProgress,
+  toLayerSpace,
+  type AffineMatrix,
+  type LayerGeometry,
+} from "./math";
+import {
+  buildMeshPatches,
+  getMeshProgress,
+  locateMeshPoint,
+  type MeshHit,
+  type MeshPatch,
+} from "./mesh";
+import { warpPoint } from "./noise";
 import type {
+  BackgroundAlphaInterpolation,
   BackgroundArgs,
   BackgroundBlendMode,
   BackgroundColorSpace,
   BackgroundColorStop,
+  BackgroundCompositeSpace,
   BackgroundPreset,
   BackgroundDitherMode,
+  BackgroundGamutMapping,
   BackgroundGrain,
+  BackgroundHueInterpolation,
+  BackgroundImageFit,
   BackgroundLayer,
+  BackgroundLayerNode,
+  BackgroundMaskOperation,
+  BackgroundMaskSource,
+  BackgroundOutputColorSpace,
+  BackgroundRenderOptions,
   BackgroundShadow,
+  BackgroundShadowMode,
+  BackgroundSpreadMethod,
+  FreeformGradientLayer,
+  GroupLayer,
+  ImageLayer,
   LinearRgba,
+  MeshGradientLayer,
 } from "./types";
 
 export interface PreparedStop {
   position: number;
+  /** Linear color in the output space (linear P3 for "display-p3"). */
   color: LinearRgba;
-  lab: [number, number, number];
+  /** The stop in the layer's interpolation space (see linearSrgbToInterpolationSpace). */
+  coords: ColorTriplet;
+}
+
+/**
+ * A color discontinuity in stop space: coincident stops, or the seam where a
+ * repeating gradient wraps from its last stop back to its first.
+ */
+export interface PreparedHardStop {
+  position: number;
+  before: LinearRgba;
+  after: LinearRgba;
+}
+
+export interface PreparedMeshColor {
+  /** The control point in the layer's interpolation space. */
+  coords: ColorTriplet;
+  alpha: number;
+}
+
+export interface PreparedMesh {
+  patches: MeshPatch[];
+  /** Control point colors, in the same rows as the layer's `points`. */
+  colors: PreparedMeshColor[][];
+}
+
+export interface PreparedFreeformPoint {
+  /** The point's color in Oklab. */
+  coords: ColorTriplet;
+  alpha: number;
 }
 
 export interface PreparedShadow {
   startIntensity: number;
   endIntensity: number;
   curve: number;
+  /** Target color in the linear output space. */
+  color: ColorTriplet;
+  mode: BackgroundShadowMode;
+  space: BackgroundCompositeSpace;
 }
 
 export interface PreparedGrain {
@@ -44,23 +129,73 @@ export interface PreparedLayer {
   layer: BackgroundLayer;
   opacity: number;
   blendMode: BackgroundBlendMode;
+  compositeSpace: BackgroundCompositeSpace;
   colorSpace: BackgroundColorSpace;
+  hueInterpolation: BackgroundHueInterpolation;
+  gamutMapping: BackgroundGamutMapping;
+  alphaInterpolation: BackgroundAlphaInterpolation;
+  spreadMethod: BackgroundSpreadMethod;
+  /** Easing or falloff, which repeat and reflect apply within each period. */
+  spreadExponent: number | undefined;
   stops: PreparedStop[];
+  hardStops: PreparedHardStop[];
+  mesh: PreparedMesh | null;
+  /** Freeform point colors, in the order of the layer's `points`. */
+  freeform: PreparedFreeformPoint[] | null;
+  /** Decoded pixels of an image layer. */
+  image: PreparedImage | null;
   shadow: PreparedShadow;
   grain: PreparedGrain | null;
+  /** Indices into `ResolvedBackgroundArgs.groups` of the enclosing groups, outermost first. */
+  groups: number[];
+  /** Group this layer masks instead of being drawn, or null. */
+  maskFor: number | null;
+  /** The layer's `masks`, then its clip, resolved to layer indices. */
+  masks: PreparedLayerMask[];
+}
+
+export interface PreparedLayerMask {
+  /** Index of the source layer in `ResolvedBackgroundArgs.layers`. */
+  layerIndex: number;
+  /** `"coverage"` is the source's final alpha, which clipping uses. */
+  source: BackgroundMaskSource | "coverage";
+  operation: BackgroundMaskOperation;
+  invert: boolean;
+}
+
+export interface PreparedGroup {
+  layer: GroupLayer;
+  opacity: number;
+  blendMode: BackgroundBlendMode;
+  compositeSpace: BackgroundCompositeSpace;
+}
+
+export interface PreparedBaseImage {
+  image: PreparedImage;
+  fit: BackgroundImageFit;
 }
 
 export interface ResolvedBackgroundArgs {
   baseColor: LinearRgba;
+  baseImage: PreparedBaseImage | null;
+  /** Composite space of the base image and of layers without their own. */
+  compositeSpace: BackgroundCompositeSpace;
+  /**
+   * Drawable layers with groups flattened depth-first; a group's mask layer
+   * follows its children.
+   */
   layers: PreparedLayer[];
+  groups: PreparedGroup[];
   preset: BackgroundPreset;
   ditherMode: BackgroundDitherMode;
   ditherAmplitude: number;
   grain: PreparedGrain | null;
   opaque: boolean;
+  outputColorSpace: BackgroundOutputColorSpace;
 }
 
 const DEFAULT_BASE_COLOR = "#000000";
+const TRANSPARENT: LinearRgba = { r: 0, g: 0, b: 0, a: 0 };
 
 function toPreparedGrain(
   grain: BackgroundGrain | undefined,
@@ -84,11 +219,21 @@ function toPreparedGrain(
   };
 }
 
-function toPreparedShadow(shadow: BackgroundShadow | undefined): PreparedShadow {
+function toPreparedShadow(
+  shadow: BackgroundShadow | undefined,
+  outputColorSpace: BackgroundOutputColorSpace,
+): PreparedShadow {
+  const { r, g, b } = clampLinearRgba(
+    linearSrgbToOutput(parseCssColor(shadow?.color ?? "#000000"), outputColorSpace),
+  );
+
   return {
     startIntensity: clamp(shadow?.startIntensity ?? 0, 0, 1),
     endIntensity: clamp(shadow?.endIntensity ?? 0, 0, 1),
     curve: Math.max(0.001, shadow?.curve ?? 1),
+    color: [r, g, b],
+    mode: shadow?.mode ?? "darken",
+    space: shadow?.space ?? "linear",
   };
 }
 
@@ -96,7 +241,7 @@ function resolveStops(layer: BackgroundLayer): BackgroundColorStop[] {
   if (layer.stops && layer.stops.length > 0) {
     return [...layer.stops]
       .map((stop) => ({
-        position: clamp(stop.position, 0, 1),
+        position: stop.position,
         color: stop.color,
         alpha: stop.alpha,
       }))
@@ -122,33 +267,133 @@ function resolveStops(layer: BackgroundLayer): BackgroundColorStop[] {
   ];
 }
 
-function toPreparedStop(stop: BackgroundColorStop): PreparedStop {
-  const parsed = parseColorToLinearRgba(stop.color);
-  const color: LinearRgba = {
+function toPreparedStop(
+  stop: BackgroundColorStop,
+  colorSpace: BackgroundColorSpace,
+  outputColorSpace: BackgroundOutputColorSpace,
+): PreparedStop {
+  // Stops keep out-of-gamut values so interpolation sees the real colors;
+  // each sample is clipped or gamut-mapped afterwards (see resolveGamut).
+  const parsed = parseCssColor(stop.color);
+  const srgb: LinearRgba = {
     ...parsed,
     a: clamp(stop.alpha ?? parsed.a, 0, 1),
   };
 
   return {
-    position: clamp(stop.position, 0, 1),
-    color,
-    lab: linearRgbToOklab(color),
+    position: stop.position,
+    color: linearSrgbToOutput(srgb, outputColorSpace),
+    coords: linearSrgbToInterpolationSpace(srgb, colorSpace),
   };
 }
 
+const HARD_STOP_EPSILON = 1e-6;
+
+function findHardStops(
+  stops: PreparedStop[],
+  spreadMethod: BackgroundSpreadMethod,
+): PreparedHardStop[] {
+  const hardStops: PreparedHardStop[] = [];
+
+  for (let i = 0; i < stops.length - 1; i++) {
+    if (stops[i + 1].position - stops[i].position >= HARD_STOP_EPSILON) {
+      continue;
+    }
+
+    // Coincident runs of three or more stops form a single edge.
+    const previous = hardStops[hardStops.length - 1];
+    if (previous && stops[i].position - previous.position < HARD_STOP_EPSILON) {
+      previous.after = stops[i + 1].color;
+    } else {
+      hardStops.push({
+        position: stops[i].position,
+        before: stops[i].color,
+        after: stops[i + 1].color,
+      });
+    }
+  }
+
+  const first = stops[0];
+  const last = stops[stops.length - 1];
+  if (
+    spreadMethod === "repeat" &&
+    stops.length > 1 &&
+    last.position - first.position >= HARD_STOP_EPSILON
+  ) {
+    hardStops.push({ position: first.position, before: last.color, after: first.color });
+  }
+
+  return hardStops;
+}
+
+function prepareMesh(
+  layer: MeshGradientLayer,
+  colorSpace: BackgroundColorSpace,
+): PreparedMesh {
+  return {
+    patches: buildMeshPatches(layer),
+    colors: layer.points.map((row) =>
+      row.map((point) => {
+        const parsed = parseCssColor(point.color);
+        return {
+          coords: linearSrgbToInterpolationSpace(parsed, colorSpace),
+          alpha: clamp(point.alpha ?? parsed.a, 0, 1),
+        };
+      }),
+    ),
+  };
+}
+
+function prepareFreeform(layer: FreeformGradientLayer): PreparedFreeformPoint[] {
+  if (layer.points.length === 0) {
+    throw new Error("Freeform layer needs at least 1 point.");
+  }
+
+  return layer.points.map((point) => {
+    const parsed = parseCssColor(point.color);
+    return {
+      coords: linearSrgbToInterpolationSpace(parsed, "oklab"),
+      alpha: clamp(point.alpha ?? parsed.a, 0, 1),
+    };
+  });
+}
+
 function prepareLayer(
   layer: BackgroundLayer,
   defaults: ReturnType<typeof getPresetDefaults>,
-): PreparedLayer {
-  const stops = resolveStops(layer).map(toPreparedStop);
+  outputColorSpace: BackgroundOutputColorSpace,
+  compositeSpace: BackgroundCompositeSpace,
+): Omit<PreparedLayer, "groups" | "maskFor" | "masks"> {
+  const colorSpace = layer.colorSpace ?? defaults.colorSpace;
+  const stops =
+    layer.type === "mesh" || layer.type === "freeform" || layer.type === "image"
+      ? []
+      : resolveStops(layer).map((stop) =>
+          toPreparedStop(stop, colorSpace, outputColorSpace),
+        );
+  const spreadMethod =
+    ((layer.type === "linear" || layer.type === "radial" || layer.type === "conic") &&
+      layer.spread) ||
+    "pad";
 
   return {
     layer,
     opacity: clamp(layer.opacity ?? 1, 0, 1),
     blendMode: layer.blendMode ?? "normal",
-    colorSpace: layer.colorSpace ?? defaults.colorSpace,
+    compositeSpace: layer.compositeSpace ?? compositeSpace,
+    colorSpace,
+    hueInterpolation: layer.hueInterpolation ?? "shorter",
+    gamutMapping: layer.gamutMapping ?? "clip",
+    alphaInterpolation: layer.alphaInterpolation ?? "premultiplied",
+    spreadMethod,
+    spreadExponent:
+      layer.type === "linear" ? layer.easing : layer.type === "radial" ? layer.falloff : undefined,
     stops,
-    shadow: toPreparedShadow(layer.shadow),
+    hardStops: findHardStops(stops, spreadMethod),
+    mesh: layer.type === "mesh" ? prepareMesh(layer, colorSpace) : null,
+    freeform: layer.type === "freeform" ? prepareFreeform(layer) : null,
+    image: layer.type === "image" ? prepareImage(layer, outputColorSpace) : null,
+    shadow: toPreparedShadow(layer.shadow, outputColorSpace),
     grain: toPreparedGrain(
       layer.grain,
       defaults.grainScale,
@@ -157,6 +402,97 @@ function prepareLayer(
   };
 }
 
+interface FlattenedLayers {
+  layers: PreparedLayer[];
+  groups: PreparedGroup[];
+}
+
+/** Flattens `nodes` depth-first into `flattened`, see {@link ResolvedBackgroundArgs.layers}. */
+function flattenLayers(
+  nodes: BackgroundLayerNode[],
+  enclosing: number[],
+  compositeSpace: BackgroundCompositeSpace,
+  prepare: (
+    layer: BackgroundLayer,
+    compositeSpace: BackgroundCompositeSpace,
+  ) => Omit<PreparedLayer, "groups" | "maskFor" | "masks">,
+  flattened: FlattenedLayers,
+): void {
+  for (const node of nodes) {
+    if (node.type !== "group") {
+      flattened.layers.push({
+        ...prepare(node, compositeSpace),
+        groups: enclosing,
+        maskFor: null,
+        masks: [],
+      });
+      continue;
+    }
+
+    const groupIndex = flattened.groups.length;
+    const groupSpace = node.compositeSpace ?? compositeSpace;
+    flattened.groups.push({
+      layer: node,
+      opacity: clamp(node.opacity ?? 1, 0, 1),
+      blendMode: node.blendMode ?? "normal",
+      compositeSpace: groupSpace,
+    });
+
+    const groups = [...enclosing, groupIndex];
+    flattenLayers(node.layers ?? [], groups, groupSpace, prepare, flattened);
+    if (node.mask) {
+      flattened.layers.push({
+        ...prepare(node.mask, groupSpace),
+        groups,
+        maskFor: groupIndex,
+        masks: [],
+      });
+    }
+  }
+}
+
+/**
+ * Resolves the `masks` and `clip` of `layers[index]` against the layers
+ * before it. A clipped layer's base is the nearest earlier layer in the
+ * same group that is drawn and not clipped itself.
+ */
+function resolveLayerMasks(layers: PreparedLayer[], index: number): PreparedLayerMask[] {
+  const { layer, groups } = layers[index];
+  const masks: PreparedLayerMask[] = (layer.masks ?? []).map((mask) => {
+    const layerIndex = layers.findIndex((source, sourceIndex) =>
+      sourceIndex < index && source.layer.id === mask.layer,
+    );
+    if (layerIndex < 0) {
+      throw new Error(`Layer ${index} is masked by "${mask.layer}", which is not an earlier layer.`);
+    }
+    return {
+      layerIndex,
+      source: mask.source ?? "alpha",
+      operation: mask.operation ?? "multiply",
+      invert: mask.invert ?? false,
+    };
+  });
+
+  if (layer.clip) {
+    const sameGroup = (other: PreparedLayer) =>
+      other.groups.length === groups.length &&
+      other.groups.every((group, depth) => group === groups[depth]);
+    let base = index - 1;
+    while (
+      base >= 0 &&
+      !(sameGroup(layers[base]) && layers[base].maskFor === null && !layers[base].layer.clip)
+    ) {
+      base--;
+    }
+    if (base < 0) {
+      throw new Error(`Layer ${index} clips to the layer below, but its group has none.`);
+    }
+    masks.push({ layerIndex: base, source: "coverage", operation: "multiply", invert: false });
+  }
+
+  return masks;
+}
+
 export function parseBackgroundArgs(args: BackgroundArgs | string): BackgroundArgs {
   if (typeof args !== "string") {
     return args;
@@ -174,10 +510,37 @@ export function resolveBackgroundArgs(args: BackgroundArgs): ResolvedBackgroundA
   const preset = args.preset ?? "video";
   const defaults = getPresetDefaults(preset);
   const ditherMode: BackgroundDitherMode = args.dither?.mode ?? defaults.ditherMode;
+  const outputColorSpace = args.outputColorSpace ?? "srgb";
+  const compositeSpace = args.compositeSpace ?? "linear";
+  const flattened: FlattenedLayers = { layers: [], groups: [] };
+  flattenLayers(
+    args.layers ?? [],
+    [],
+    compositeSpace,
+    (layer, layerCompositeSpace) =>
+      prepareLayer(layer, defaults, outputColorSpace, layerCompositeSpace),
+    flattened,
+  );
 
   return {
-    baseColor: parseColorToLinearRgba(args.baseColor ?? DEFAULT_BASE_COLOR),
-    layers: (args.layers ?? []).map((layer) => prepareLayer(layer, defaults)),
+    baseColor: clampLinearRgba(
+      linearSrgbToOutput(
+        parseCssColor(args.baseColor ?? DEFAULT_BASE_COLOR),
+        outputColorSpace,
+      ),
+    ),
+    baseImage: args.baseImage
+      ? {
+          image: prepareImage(args.baseImage, outputColorSpace),
+          fit: args.baseImage.fit ?? "cover",
+        }
+      : null,
+    compositeSpace,
+    layers: flattened.layers.map((layer, index) => ({
+      ...layer,
+      masks: resolveLayerMasks(flattened.layers, index),
+    })),
+    groups: flattened.groups,
     preset,
     ditherMode,
     ditherAmplitude: Math.max(0, args.dither?.amplitude ?? defaults.ditherAmplitude),
@@ -187,14 +550,46 @@ export function resolveBackgroundArgs(args: BackgroundArgs): ResolvedBackgroundA
       defaults.grainMonochrome,
     ),
     opaque: args.opaque ?? true,
+    outputColorSpace,
   };
 }
 
+function mixStopCoords(
+  preparedLayer: PreparedLayer,
+  start: ColorTriplet,
+  startAlpha: number,
+  end: ColorTriplet,
+  endAlpha: number,
+  t: number,
+  alpha: number,
+): ColorTriplet {
+  const { colorSpace, hueInterpolation } = preparedLayer;
+
+  if (preparedLayer.alphaInterpolation === "straight") {
+    return interpolateCoords(start, end, t, colorSpace, hueInterpolation);
+  }
+
+  const mixed = interpolateCoords(
+    premultiplyCoords(start, startAlpha, colorSpace),
+    premultiplyCoords(end, endAlpha, colorSpace),
+    t,
+    colorSpace,
+    hueInterpolation,
+  );
+  return unpremultiplyCoords(mixed, alpha, colorSpace);
+}
+
+/**
+ * Interpolate the layer's stop list at `t`. The result is not gamut-resolved:
+ * interpolating outside linear sRGB can leave [0, 1], see {@link resolveGamut}.
+ */
 function sampleStops(
-  stops: PreparedStop[],
+  preparedLayer: PreparedLayer,
   t: number,
-  colorSpace: BackgroundColorSpace,
+  outputColorSpace: BackgroundOutputColorSpace,
 ): LinearRgba {
+  const { stops, colorSpace } = preparedLayer;
+
   if (stops.length === 0) {
     return { r: 0, g: 0, b: 0, a: 0 };
   }
@@ -203,14 +598,12 @@ function sampleStops(
     return stops[0].color;
   }
 
-  const tt = clamp(t, 0, 1);
-
-  if (tt <= stops[0].position) {
+  if (t <= stops[0].position) {
     return stops[0].color;
   }
 
   const last = stops[stops.length - 1];
-  if (tt >= last.position) {
+  if (t >= last.position) {
     return last.color;
   }
 
@@ -218,39 +611,168 @@ function sampleStops(
     const start = stops[i];
     const end = stops[i + 1];
 
-    if (tt > end.position) {
+    if (t > end.position) {
       continue;
     }
 
     const span = Math.max(1e-6, end.position - start.position);
-    const segT = (tt - start.position) / span;
+    const segT = (t - start.position) / span;
+    const alpha = lerp(start.color.a, end.color.a, segT);
 
+    // Linear interpolation commutes with the output-space matrix, so
+    // linear-srgb mixes the already-converted colors directly.
     if (colorSpace === "linear-srgb") {
-      return {
-        r: lerp(start.color.r, end.color.r, segT),
-        g: lerp(start.color.g, end.color.g, segT),
-        b: lerp(start.color.b, end.color.b, segT),
-        a: lerp(start.color.a, end.color.a, segT),
-      };
+      const [r, g, b] = mixStopCoords(
+        preparedLayer,
+        [start.color.r, start.color.g, start.color.b],
+        start.color.a,
+        [end.color.r, end.color.g, end.color.b],
+        end.color.a,
+        segT,
+        alpha,
+      );
+      return { r, g, b, a: alpha };
     }
 
-    return oklabToLinearRgb(
-      [
-        lerp(start.lab[0], end.lab[0], segT),
-        lerp(start.lab[1], end.lab[1], segT),
-        lerp(start.lab[2], end.lab[2], segT),
-      ],
-      lerp(start.color.a, end.color.a, segT),
+    const [r, g, b] = interpolationSpaceToLinearSrgb(
+      mixStopCoords(
+        preparedLayer,
+        start.coords,
+        start.color.a,
+        end.coords,
+        end.color.a,
+        segT,
+        alpha,
+      ),
+      colorSpace,
     );
+
+    return linearSrgbToOutput({ r, g, b, a: alpha }, outputColorSpace);
   }
 
   return last.color;
 }
 
+/** Blend two colors by pixel coverage, premultiplied like compositing. */
+function mixByCoverage(from: LinearRgba, to: LinearRgba, coverage: number): LinearRgba {
+  const a = lerp(from.a, to.a, coverage);
+  if (a <= 0) {
+    return { ...to, a: 0 };
+  }
+
+  const mixChannel = (fromValue: number, toValue: number) =>
+    lerp(fromValue * from.a, toValue * to.a, coverage) / a;
+  return {
+    r: mixChannel(from.r, to.r),
+    g: mixChannel(from.g, to.g),
+    b: mixChannel(from.b, to.b),
+    a,
+  };
+}
+
+/**
+ * {@link sampleStops} with hard stops box-filtered over `footprint`, the
+ * change in `t` across one output pixel. Within half a footprint of an edge
+ * the far side's color is mixed in by coverage, so stripes stay smooth.
+ */
+function sampleStopsAntialiased(
+  preparedLayer: PreparedLayer,
+  t: number,
+  footprint: number,
+  outputColorSpace: BackgroundOutputColorSpace,
+): LinearRgba {
+  const color = sampleStops(preparedLayer, t, outputColorSpace);
+  if (footprint <= 0) {
+    return color;
+  }
+
+  const { stops, spreadMethod } = preparedLayer;
+  const period = stops[stops.length - 1].position - stops[0].position;
+
+  for (const hardStop of preparedLayer.hardStops) {
+    let distance = t - hardStop.position;
+    if (spreadMethod === "repeat") {
+      distance -= period * Math.round(distance / period);
+    }
+
+    if (Math.abs(distance) < footprint / 2) {
+      // Exactly on the edge, `color` could be either side.
+      if (distance === 0) {
+        return mixByCoverage(hardStop.before, hardStop.after, 0.5);
+      }
+
+      const coverage = distance / footprint + 0.5;
+      return distance > 0
+        ? mixByCoverage(hardStop.before, color, coverage)
+        : mixByCoverage(color, hardStop.after, coverage);
+    }
+  }
+
+  return color;
+}
+
+function mixMeshColors(
+  preparedLayer: PreparedLayer,
+  start: PreparedMeshColor,
+  end: PreparedMeshColor,
+  t: number,
+): PreparedMeshColor {
+  const alpha = lerp(start.alpha, end.alpha, t);
+  return {
+    coords: mixStopCoords(
+      preparedLayer,
+      start.coords,
+      start.alpha,
+      end.coords,
+      end.alpha,
+      t,
+      alpha,
+    ),
+    alpha,
+  };
+}
+
+/** Bilinear blend of a patch's corner colors in the layer's interpolation space. */
+function sampleMeshColor(
+  preparedLayer: PreparedLayer,
+  mesh: PreparedMesh,
+  hit: MeshHit,
+  outputColorSpace: BackgroundOutputColorSpace,
+): LinearRgba {
+  const { row, column } = hit.patch;
+  const { colors } = mesh;
+  const top = mixMeshColors(preparedLayer, colors[row][column], colors[row][column + 1], hit.u);
+  const bottom = mixMeshColors(
+    preparedLayer,
+    colors[row + 1][column],
+    colors[row + 1][column + 1],
+    hit.u,
+  );
+  const { coords, alpha } = mixMeshColors(preparedLayer, top, bottom, hit.v);
+
+  const [r, g, b] = interpolationSpaceToLinearSrgb(coords, preparedLayer.colorSpace);
+  return linearSrgbToOutput({ r, g, b, a: alpha }, outputColorSpace);
+}
+
+/** The shadowed color at full intensity. */
+function shadowTarget(color: ColorTriplet, shadow: PreparedShadow): ColorTriplet {
+  switch (shadow.mode) {
+    case "tint":
+      return shadow.color;
+    case "lighten":
+      return color.map(
+        (channel, index) => channel + shadow.color[index] - channel * shadow.color[index],
+      ) as ColorTriplet;
+    default:
+      return color.map((channel, index) => channel * shadow.color[index]) as ColorTriplet;
+  }
+}
+
 function applyShadow(
   color: LinearRgba,
   progress: number,
   shadow: PreparedShadow,
+  outputColorSpace: BackgroundOutputColorSpace,
 ): LinearRgba {
   const shapedT = Math.pow(clamp(progress, 0, 1), shadow.curve);
   const intensity = clamp(
@@ -263,13 +785,33 @@ function applyShadow(
     return color;
   }
 
-  const multiplier = 1 - intensity;
-  return {
-    r: color.r * multiplier,
-    g: color.g * multiplier,
-    b: color.b * multiplier,
-    a: color.a,
-  };
+  const source: ColorTriplet = [color.r, color.g, color.b];
+  const target = shadowTarget(source, shadow);
+
+  if (shadow.space === "srgb") {
+    const [r, g, b] = interpolationSpaceToLinearSrgb(
+      mixTriplets(
+        linearSrgbToInterpolationSpace(color, "srgb"),
+        linearSrgbToInterpolationSpace({ r: target[0], g: target[1], b: target[2], a: 1 }, "srgb"),
+        intensity,
+      ),
+      "srgb",
+    );
+    return { r, g, b, a: color.a };
+  }
+
+  if (shadow.space === "oklab") {
+    const toOklab = ([r, g, b]: ColorTriplet) =>
+      linearRgbToOklab(outputToLinearSrgb({ r, g, b, a: 1 }, outputColorSpace));
+    const mixed = oklabToExtendedLinearRgb(
+      mixTriplets(toOklab(source), toOklab(target), intensity),
+      color.a,
+    );
+    return linearSrgbToOutput(mixed, outputColorSpace);
+  }
+
+  const [r, g, b] = mixTriplets(source, target, intensity);
+  return { r, g, b, a: color.a };
 }
 
 function triangularNoise(x: number, y: number, seed: number): number {
@@ -290,10 +832,10 @@ function triangularNoise(x: number, y: number, seed: number): number {
  * This scales grain by sqrt(luminance / 0.18) capped at 1, normalising so
  * that mid-gray (0.18) is unchanged while dark areas are damped.
  */
-function perceptualGrainScale(color: LinearRgba): number {
+function perceptualGrainScale(color: LinearRgba, weights: ColorTriplet): number {
   const luminance = Math.max(
     0.0001,
-    0.2126 * color.r + 0.7152 * color.g + 0.0722 * color.b,
+    weights[0] * color.r + weights[1] * color.g + weights[2] * color.b,
   );
   return Math.min(1, Math.sqrt(luminance / 0.18));
 }
@@ -303,6 +845,7 @@ function applyGrain(
   grain: PreparedGrain | null,
   x: number,
   y: number,
+  luminanceWeights: ColorTriplet,
 ): LinearRgba {
   if (!grain) {
     return color;
@@ -311,7 +854,7 @@ function applyGrain(
   const scale = grain.scale;
   const sx = x * scale;
   const sy = y * scale;
-  const pScale = perceptualGrainScale(color);
+  const pScale = perceptualGrainScale(color, luminanceWeights);
 
   if (grain.monochrome) {
     const n = triangularNoise(sx, sy, grain.seed) * grain.amount * pScale;
@@ -368,68 +911,461 @@ function computeGrainSrgb(
   };
 }
 
+function hardLight(destination: number, source: number): number {
+  return source <= 0.5
+    ? destination * 2 * source
+    : 1 - (1 - destination) * (2 - 2 * source);
+}
+
+function softLight(destination: number, source: number): number {
+  if (source <= 0.5) {
+    return destination - (1 - 2 * source) * destination * (1 - destination);
+  }
+
+  const lifted =
+    destination <= 0.25
+      ? ((16 * destination - 12) * destination + 4) * destination
+      : Math.sqrt(destination);
+  return destination + (2 * source - 1) * (lifted - destination);
+}
+
 function blendChannel(
   destination: number,
   source: number,
   blendMode: BackgroundBlendMode,
 ): number {
-  if (blendMode === "add") {
-    return Math.min(1, destination + source);
+  switch (blendMode) {
+    case "add":
+      return Math.min(1, destination + source);
+    case "multiply":
+      return destination * source;
+    case "screen":
+      return 1 - (1 - destination) * (1 - source);
+    case "overlay":
+      return hardLight(source, destination);
+    case "darken":
+      return Math.min(destination, source);
+    case "lighten":
+      return Math.max(destination, source);
+    case "color-dodge":
+      if (destination <= 0) {
+        return 0;
+      }
+      return source >= 1 ? 1 : Math.min(1, destination / (1 - source));
+    case "color-burn":
+      if (destination >= 1) {
+        return 1;
+      }
+      return source <= 0 ? 0 : 1 - Math.min(1, (1 - destination) / source);
+    case "hard-light":
+      return hardLight(destination, source);
+    case "soft-light":
+      return softLight(destination, source);
+    case "difference":
+      return Math.abs(destination - source);
+    case "exclusion":
+      return destination + source - 2 * destination * source;
+    default:
+      return source;
   }
+}
 
-  if (blendMode === "multiply") {
-    return destination * source;
-  }
+/** Luma weights from the compositing spec, shared by all non-separable modes. */
+function luminosity([r, g, b]: ColorTriplet): number {
+  return 0.3 * r + 0.59 * g + 0.11 * b;
+}
+
+function saturation(color: ColorTriplet): number {
+  return Math.max(...color) - Math.min(...color);
+}
 
-  if (blendMode === "screen") {
-    return 1 - (1 - destination) * (1 - source);
+/** Shifts `color` to luminosity `lum`, then pulls it back into [0, 1] keeping its luminosity. */
+function withLuminosity(color: ColorTriplet, lum: number): ColorTriplet {
+  const delta = lum - luminosity(color);
+  const shifted = color.map((channel) => channel + delta) as ColorTriplet;
+  const l = luminosity(shifted);
+  const low = Math.min(...shifted);
+  const high = Math.max(...shifted);
+  const scale = (low < 0 ? l / (l - low) : 1) * (high > 1 ? (1 - l) / (high - l) : 1);
+  return shifted.map((channel) => l + (channel - l) * scale) as ColorTriplet;
+}
+
+function withSaturation(color: ColorTriplet, sat: number): ColorTriplet {
+  const low = Math.min(...color);
+  const range = Math.max(...color) - low;
+  return color.map((channel) => (range > 0 ? ((channel - low) * sat) / range : 0)) as ColorTriplet;
+}
+
+/**
+ * Blended color before alpha; the last four modes mix hue, saturation and
+ * luminosity. Exported for the shader parity tests.
+ */
+export function blendColor(
+  backdrop: ColorTriplet,
+  color: ColorTriplet,
+  blendMode: BackgroundBlendMode,
+): ColorTriplet {
+  switch (blendMode) {
+    case "hue":
+      return withLuminosity(withSaturation(color, saturation(backdrop)), luminosity(backdrop));
+    case "saturation":
+      return withLuminosity(withSaturation(backdrop, saturation(color)), luminosity(backdrop));
+    case "color":
+      return withLuminosity(color, luminosity(backdrop));
+    case "luminosity":
+      return withLuminosity(backdrop, luminosity(color));
+    default:
+      return [
+        blendChannel(backdrop[0], color[0], blendMode),
+        blendChannel(backdrop[1], color[1], blendMode),
+        blendChannel(backdrop[2], color[2], blendMode),
+      ];
   }
+}
 
-  return source;
+function mixTriplets(start: ColorTriplet, end: ColorTriplet, t: number): ColorTriplet {
+  return [lerp(start[0], end[0], t), lerp(start[1], end[1], t), lerp(start[2], end[2], t)];
 }
 
+/**
+ * Composites `source` over `destination` with `blendMode`, following the
+ * W3C compositing model for straight alpha: the blend result shows where the
+ * backdrop is opaque and the plain source where it is transparent.
+ * `compositeSpace` picks where the blend and opacity mix happen: linear
+ * light, gamma-encoded channels like CSS, or linear-light blending mixed by
+ * opacity in Oklab.
+ */
 function compositeLinear(
   destination: LinearRgba,
   source: LinearRgba,
   blendMode: BackgroundBlendMode,
+  compositeSpace: BackgroundCompositeSpace,
+  outputColorSpace: BackgroundOutputColorSpace,
 ): LinearRgba {
   const alpha = clamp(source.a, 0, 1);
   if (alpha <= 0) {
     return destination;
   }
 
-  const blendedR = blendChannel(destination.r, source.r, blendMode);
-  const blendedG = blendChannel(destination.g, source.g, blendMode);
-  const blendedB = blendChannel(destination.b, source.b, blendMode);
+  const backdropAlpha = clamp(destination.a, 0, 1);
+  const outAlpha = alpha + backdropAlpha * (1 - alpha);
+  const weight = alpha / outAlpha;
+  const blendOver = (backdrop: ColorTriplet, color: ColorTriplet): ColorTriplet =>
+    mixTriplets(color, blendColor(backdrop, color, blendMode), backdropAlpha);
+
+  if (compositeSpace === "srgb") {
+    const backdrop = linearSrgbToInterpolationSpace(destination, "srgb");
+    const blended = blendOver(backdrop, linearSrgbToInterpolationSpace(source, "srgb"));
+    const [r, g, b] = interpolationSpaceToLinearSrgb(
+      mixTriplets(backdrop, blended, weight),
+      "srgb",
+    );
+    return clampLinearRgba({ r, g, b, a: outAlpha });
+  }
+
+  const backdrop: ColorTriplet = [destination.r, destination.g, destination.b];
+  const [blendedR, blendedG, blendedB] = blendOver(backdrop, [source.r, source.g, source.b]);
+
+  if (compositeSpace === "oklab") {
+    const mixed = oklabToExtendedLinearRgb(
+      mixTriplets(
+        linearRgbToOklab(outputToLinearSrgb(destination, outputColorSpace)),
+        linearRgbToOklab(
+          outputToLinearSrgb({ r: blendedR, g: blendedG, b: blendedB, a: 1 }, outputColorSpace),
+        ),
+        weight,
+      ),
+      outAlpha,
+    );
+    return clampLinearRgba(linearSrgbToOutput(mixed, outputColorSpace));
+  }
 
   return clampLinearRgba({
-    r: destination.r * (1 - alpha) + blendedR * alpha,
-    g: destination.g * (1 - alpha) + blendedG * alpha,
-    b: destination.b * (1 - alpha) + blendedB * alpha,
-    a: alpha + destination.a * (1 - alpha),
+    r: lerp(destination.r, blendedR, weight),
+    g: lerp(destination.g, blendedG, weight),
+    b: lerp(destination.b, blendedB, weight),
+    a: outAlpha,
+  });
+}
+
+function resolveGamut(
+  color: LinearRgba,
+  gamutMapping: BackgroundGamutMapping,
+  outputColorSpace: BackgroundOutputColorSpace,
+): LinearRgba {
+  return gamutMapping === "css"
+    ? gamutMapLinearRgba(color, outputColorSpace)
+    : clampLinearRgba(color);
+}
+
+/** Per-render out-of-gamut bookkeeping, only allocated when diagnostics are requested. */
+interface GamutTally {
+  layerCounts: number[];
+  pixelHit: boolean;
+}
+
+/** Render-wide state shared by every layer sample. */
+interface SampleContext {
+  width: number;
+  height: number;
+  outputColorSpace: BackgroundOutputColorSpace;
+  luminanceWeights: ColorTriplet;
+  /** Design-space size of one output pixel. */
+  pixelWidth: number;
+  pixelHeight: number;
+  /** Per-layer inverse transforms, see resolveLayerTransform. */
+  layerTransforms: (AffineMatrix | null)[];
+  /** Per-layer geometry, see resolveLayerGeometry. */
+  layerGeometry: LayerGeometry[];
+  /** Physical column of the current pixel. */
+  column: number;
+  /**
+   * Unwrapped progress of layers with hard stops, one slot per column: the
+   * current row up to the current pixel, the previous row after it. NaN
+   * before a pixel has been sampled.
+   */
+  progressRows: (Float64Array | null)[];
+  tally: GamutTally | null;
+  /** Per-layer values at the current pixel that later layers can mask with. */
+  fields: Record<PreparedLayerMask["source"], Float64Array>;
+}
+
+/** A layer's color before gamut, shadow and grain, with its shadow progress. */
+interface LayerSample {
+  color: LinearRgba;
+  t: number;
+  mask: number;
+}
+
+function sampleGradientLayer(
+  preparedLayer: PreparedLayer,
+  layerIndex: number,
+  x: number,
+  y: number,
+  context: SampleContext,
+): LayerSample | null {
+  const { layer } = preparedLayer;
+  const { width, height } = context;
+  const inverse = context.layerTransforms[layerIndex];
+  const geometry = context.layerGeometry[layerIndex];
+  const pixelSize = Math.max(context.pixelWidth, context.pixelHeight);
+  const sampleProgress = (sampleX: number, sampleY: number) =>
+    sampleLayerProgress(layer, sampleX, sampleY, width, height, inverse, pixelSize, geometry);
+  const progress = sampleProgress(x, y);
+
+  // Neighbors are read before this pixel overwrites the slot above it.
+  const row = context.progressRows[layerIndex];
+  const left = row && context.column > 0 ? row[context.column - 1] : NaN;
+  const above = row ? row[context.column] : NaN;
+  if (row) {
+    row[context.column] = progress.t;
+  }
+
+  if (progress.mask <= 0) {
+    return null;
+  }
+
+  const { stops, spreadMethod, spreadExponent, hardStops } = preparedLayer;
+  const first = stops[0]?.position ?? 0;
+  const period = (stops[stops.length - 1]?.position ?? 0) - first;
+  const fold = (value: number): number =>
+    stops.length > 1
+      ? applySpreadMethod(value, spreadMethod, first, first + period, spreadExponent)
+      : value;
+  const t = fold(progress.t);
+
+  if (hardStops.length === 0) {
+    return {
+      color: sampleStops(preparedLayer, t, context.outputColorSpace),
+      t,
+      mask: progress.mask,
+    };
+  }
+
+  // Differences to the neighbors sampled before this pixel stand in for
+  // screen-space derivatives; only the first row and column sample extra
+  // points. Folded progress is unwrapped again so repeat seams do not look
+  // like huge jumps.
+  const unwrap = (value: number): number =>
+    spreadMethod === "repeat" && period >= HARD_STOP_EPSILON
+      ? fold(value) + period * Math.floor((value - first) / period)
+      : fold(value);
+  const center = unwrap(progress.t);
+  const dx = center - unwrap(Number.isNaN(left) ? sampleProgress(x - context.pixelWidth, y).t : left);
+  const dy = center - unwrap(Number.isNaN(above) ? sampleProgress(x, y - context.pixelHeight).t : above);
+  const footprint = Math.abs(dx) + Math.abs(dy);
+
+  return {
+    color: sampleStopsAntialiased(preparedLayer, t, footprint, context.outputColorSpace),
+    t,
+    mask: progress.mask,
+  };
+}
+
+function sampleMeshLayer(
+  preparedLayer: PreparedLayer,
+  mesh: PreparedMesh,
+  layerIndex: number,
+  x: number,
+  y: number,
+  context: SampleContext,
+): LayerSample | null {
+  const [warpedX, warpedY] = warpPoint(preparedLayer.layer.warp, x, y);
+  const point = toLayerSpace(context.layerTransforms[layerIndex], warpedX, warpedY);
+  const hit = point && locateMeshPoint(mesh.patches, point[0], point[1]);
+  if (!hit) {
+    return null;
+  }
+
+  return {
+    color: sampleMeshColor(preparedLayer, mesh, hit, context.outputColorSpace),
+    t: getMeshProgress(hit, mesh.colors.length),
+    mask: 1,
+  };
+}
+
+/** Weighted sum of the point colors in Oklab, premultiplied unless the layer asks for straight alpha. */
+function sampleFreeformLayer(
+  preparedLayer: PreparedLayer,
+  layer: FreeformGradientLayer,
+  points: PreparedFreeformPoint[],
+  layerIndex: number,
+  x: number,
+  y: number,
+  context: SampleContext,
+): LayerSample | null {
+  const [warpedX, warpedY] = warpPoint(layer.warp, x, y);
+  const point = toLayerSpace(context.layerTransforms[layerIndex], warpedX, warpedY);
+  if (!point) {
+    return null;
+  }
+
+  const { t, weights } = sampleFreeformWeights(
+    layer,
+    point[0],
+    point[1],
+    context.width,
+    context.height,
+  );
+  const premultiplied = preparedLayer.alphaInterpolation === "premultiplied";
+  const sum: ColorTriplet = [0, 0, 0];
+  let alpha = 0;
+
+  points.forEach(({ coords, alpha: pointAlpha }, index) => {
+    const weight = weights[index] * (premultiplied ? pointAlpha : 1);
+    sum[0] += coords[0] * weight;
+    sum[1] += coords[1] * weight;
+    sum[2] += coords[2] * weight;
+    alpha += weights[index] * pointAlpha;
   });
+
+  const coords = premultiplied ? unpremultiplyCoords(sum, alpha, "oklab") : sum;
+  const [r, g, b] = interpolationSpaceToLinearSrgb(coords, "oklab");
+  return {
+    color: linearSrgbToOutput({ r, g, b, a: alpha }, context.outputColorSpace),
+    t,
+    mask: 1,
+  };
+}
+
+/** The image under the layer's warp and transform; progress is 0 everywhere. */
+function sampleImageLayer(
+  layer: ImageLayer,
+  image: PreparedImage,
+  layerIndex: number,
+  x: number,
+  y: number,
+  context: SampleContext,
+): LayerSample | null {
+  const [warpedX, warpedY] = warpPoint(layer.warp, x, y);
+  const point = toLayerSpace(context.layerTransforms[layerIndex], warpedX, warpedY);
+  const placement = resolveImagePlacement(image, layer.fit, context.width, context.height);
+  const color = point && sampleImage(image, placement, point[0], point[1]);
+  return color ? { color, t: 0, mask: 1 } : null;
+}
+
+function applyLayerMasks(
+  mask: number,
+  masks: PreparedLayerMask[],
+  fields: SampleContext["fields"],
+): number {
+  return masks.reduce((combined, { layerIndex, source, operation, invert }) => {
+    const field = clamp(fields[source][layerIndex], 0, 1);
+    const value = invert ? 1 - field : field;
+    if (operation === "intersect") {
+      return Math.min(combined, value);
+    }
+    if (operation === "subtract") {
+      return Math.max(0, combined - value);
+    }
+    return combined * value;
+  }, mask);
 }
 
 function sampleLayerColor(
   preparedLayer: PreparedLayer,
+  layerIndex: number,
   x: number,
   y: number,
-  width: number,
-  height: number,
+  context: SampleContext,
 ): LinearRgba | null {
-  const progress = sampleLayerProgress(preparedLayer.layer, x, y, width, height);
-  if (progress.mask <= 0) {
+  const { layer, mesh, freeform, image } = preparedLayer;
+  const { fields } = context;
+  fields.alpha[layerIndex] = 0;
+  fields.progress[layerIndex] = 0;
+  fields.coverage[layerIndex] = 0;
+
+  let sample: LayerSample | null;
+  if (layer.type === "image" && image) {
+    sample = sampleImageLayer(layer, image, layerIndex, x, y, context);
+  } else if (mesh) {
+    sample = sampleMeshLayer(preparedLayer, mesh, layerIndex, x, y, context);
+  } else if (layer.type === "freeform" && freeform) {
+    sample = sampleFreeformLayer(preparedLayer, layer, freeform, layerIndex, x, y, context);
+  } else {
+    sample = sampleGradientLayer(preparedLayer, layerIndex, x, y, context);
+  }
+  if (!sample) {
     return null;
   }
 
-  const sampled = sampleStops(preparedLayer.stops, progress.t, preparedLayer.colorSpace);
-  const shadowed = applyShadow(sampled, progress.t, preparedLayer.shadow);
-  const withGrain = applyGrain(shadowed, preparedLayer.grain, x, y);
+  fields.alpha[layerIndex] = sample.color.a * sample.mask;
+  fields.progress[layerIndex] = sample.t;
+  const mask = applyLayerMasks(sample.mask, preparedLayer.masks, fields);
+  if (mask <= 0) {
+    return null;
+  }
 
-  const alpha = withGrain.a * preparedLayer.opacity * progress.mask;
+  const interpolated = sample.color;
+  if (context.tally && !isLinearRgbInGamut(interpolated)) {
+    context.tally.layerCounts[layerIndex]++;
+    context.tally.pixelHit = true;
+  }
+
+  const sampled = resolveGamut(
+    interpolated,
+    preparedLayer.gamutMapping,
+    context.outputColorSpace,
+  );
+  const shadowed = applyShadow(
+    sampled,
+    sample.t,
+    preparedLayer.shadow,
+    context.outputColorSpace,
+  );
+  const withGrain = applyGrain(
+    shadowed,
+    preparedLayer.grain,
+    x,
+    y,
+    context.luminanceWeights,
+  );
+
+  const alpha = withGrain.a * preparedLayer.opacity * mask;
   if (alpha <= 0) {
     return null;
   }
+  fields.coverage[layerIndex] = alpha;
 
   return {
     ...withGrain,
@@ -447,28 +1383,127 @@ export function renderBackgroundPixels(
   designHeight: number,
   physicalWidth = designWidth,
   physicalHeight = designHeight,
+  options: BackgroundRenderOptions = {},
 ): Uint8ClampedArray {
   const resolved = resolveBackgroundArgs(args);
   const pixelData = new Uint8ClampedArray(physicalWidth * physicalHeight * 4);
 
+  const tally: GamutTally | null = options.onDiagnostics
+    ? { layerCounts: resolved.layers.map(() => 0), pixelHit: false }
+    : null;
+  let outOfGamutPixels = 0;
+
   const scaleX = designWidth / physicalWidth;
   const scaleY = designHeight / physicalHeight;
 
+  const context: SampleContext = {
+    width: designWidth,
+    height: designHeight,
+    outputColorSpace: resolved.outputColorSpace,
+    luminanceWeights: getLuminanceWeights(resolved.outputColorSpace),
+    pixelWidth: scaleX,
+    pixelHeight: scaleY,
+    layerTransforms: resolved.layers.map((layer) =>
+      resolveLayerTransform(layer.layer.transform, designWidth, designHeight),
+    ),
+    layerGeometry: resolved.layers.map((layer) =>
+      resolveLayerGeometry(layer.layer, designWidth, designHeight),
+    ),
+    column: 0,
+    progressRows: resolved.layers.map((layer) =>
+      layer.hardStops.length > 0 ? new Float64Array(physicalWidth).fill(NaN) : null,
+    ),
+    tally,
+    fields: {
+      alpha: new Float64Array(resolved.layers.length),
+      progress: new Float64Array(resolved.layers.length),
+      coverage: new Float64Array(resolved.layers.length),
+    },
+  };
+  const groupMasks = new Float64Array(resolved.groups.length);
+  const { baseImage } = resolved;
+  const basePlacement =
+    baseImage && resolveImagePlacement(baseImage.image, baseImage.fit, designWidth, designHeight);
+
   for (let py = 0; py < physicalHeight; py++) {
     for (let px = 0; px < physicalWidth; px++) {
       const index = (py * physicalWidth + px) * 4;
       const x = px * scaleX;
       const y = py * scaleY;
+      context.column = px;
 
       let accumulated: LinearRgba = resolved.baseColor;
+      const baseSample = baseImage && basePlacement && sampleImage(baseImage.image, basePlacement, x, y);
+      if (baseSample) {
+        accumulated = compositeLinear(
+          accumulated,
+          baseSample,
+          "normal",
+          resolved.compositeSpace,
+          resolved.outputColorSpace,
+        );
+      }
+
+      if (tally) {
+        tally.pixelHit = false;
+      }
+
+      // Each open group draws into a transparent buffer; `below` holds the
+      // buffers it will be composited onto.
+      const below: LinearRgba[] = [];
+      const openGroups: number[] = [];
+      const closeGroup = () => {
+        const groupIndex = openGroups.pop() as number;
+        const group = resolved.groups[groupIndex];
+        const isolated = accumulated;
+        accumulated = compositeLinear(
+          below.pop() as LinearRgba,
+          { ...isolated, a: isolated.a * group.opacity * groupMasks[groupIndex] },
+          group.blendMode,
+          group.compositeSpace,
+          resolved.outputColorSpace,
+        );
+      };
+
+      for (let layerIndex = 0; layerIndex < resolved.layers.length; layerIndex++) {
+        const layer = resolved.layers[layerIndex];
+        while (
+          openGroups.length > 0 &&
+          layer.groups[openGroups.length - 1] !== openGroups[openGroups.length - 1]
+        ) {
+          closeGroup();
+        }
+        while (openGroups.length < layer.groups.length) {
+          const groupIndex = layer.groups[openGroups.length];
+          openGroups.push(groupIndex);
+          below.push(accumulated);
+          accumulated = TRANSPARENT;
+          groupMasks[groupIndex] = 1;
+        }
 
-      for (const layer of resolved.layers) {
-        const sampled = sampleLayerColor(layer, x, y, designWidth, designHeight);
+        const sampled = sampleLayerColor(layer, layerIndex, x, y, context);
+        if (layer.maskFor !== null) {
+          groupMasks[layer.maskFor] = sampled?.a ?? 0;
+          continue;
+        }
         if (!sampled) {
           continue;
         }
 
-        accumulated = compositeLinear(accumulated, sampled, layer.blendMode);
+        accumulated = compositeLinear(
+          accumulated,
+          sampled,
+          layer.blendMode,
+          layer.compositeSpace,
+          resolved.outputColorSpace,
+        );
+      }
+      while (openGroups.length > 0) {
+        closeGroup();
+      }
+
+      if (tally?.pixelHit) {
+        outOfGamutPixels++;
       }
 
       accumulated = clampLinearRgba(accumulated);
@@ -502,6 +1537,14 @@ export function renderBackgroundPixels(
     }
   }
 
+  if (tally && options.onDiagnostics) {
+    options.onDiagnostics({
+      totalPixels: physicalWidth * physicalHeight,
+      outOfGamutPixels,
+      layerOutOfGamutPixels: tally.layerCounts,
+    });
+  }
+
   return pixelData;
 }
 
@@ -510,8 +1553,10 @@ export function renderBackgroundToCanvas(
   designWidth: number,
   designHeight: number,
   args: BackgroundArgs,
+  options: BackgroundRenderOptions = {},
 ): void {
-  const ctx = canvas.getContext("2d");
+  const colorSpace = args.outputColorSpace ?? "srgb";
+  const ctx = canvas.getContext("2d", { colorSpace });
   if (!ctx) {
     return;
   }
@@ -522,9 +1567,10 @@ export function renderBackgroundToCanvas(
     designHeight,
     canvas.width,
     canvas.height,
+    options,
   );
 
-  const imageData = ctx.createImageData(canvas.width, canvas.height);
+  const imageData = ctx.createImageData(canvas.width, canvas.height, { colorSpace });
   imageData.data.set(pixels);
   ctx.putImageData(imageData, 0, 0);
 }
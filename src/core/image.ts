@@ -0,0 +1,224 @@
+import { linearSrgbToOutput } from "./color";
+import { srgbToLinear } from "./dither";
+import type { LayerProgress } from "./math";
+import type {
+  BackgroundImage,
+  BackgroundImageFit,
+  BackgroundImageSource,
+  BackgroundOutputColorSpace,
+  ImageLayer,
+  LinearRgba,
+} from "./types";
+
+const EPSILON = 1e-6;
+
+/** Image pixels ready to sample: premultiplied RGBA in the linear output space. */
+export interface PreparedImage {
+  width: number;
+  height: number;
+  pixels: Float32Array;
+}
+
+/** Where an image sits on the canvas: its top-left corner and design pixels per image pixel. */
+export interface ImagePlacement {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+const SRGB_TO_LINEAR = Float32Array.from({ length: 256 }, (_, value) => srgbToLinear(value));
+
+function decodeImage(
+  source: BackgroundImageSource,
+  outputColorSpace: BackgroundOutputColorSpace,
+): Float32Array {
+  const { width, height, data } = source;
+  if (width < 1 || height < 1 || data.length !== width * height * 4) {
+    throw new Error(
+      `Image data has ${data.length} bytes, expected ${Math.max(0, width * height * 4)} for ${width}×${height}.`,
+    );
+  }
+
+  const pixels = new Float32Array(data.length);
+  for (let index = 0; index < data.length; index += 4) {
+    const alpha = data[index + 3] / 255;
+    const { r, g, b } = linearSrgbToOutput(
+      {
+        r: SRGB_TO_LINEAR[data[index]],
+        g: SRGB_TO_LINEAR[data[index + 1]],
+        b: SRGB_TO_LINEAR[data[index + 2]],
+        a: alpha,
+      },
+      outputColorSpace,
+    );
+    pixels[index] = r * alpha;
+    pixels[index + 1] = g * alpha;
+    pixels[index + 2] = b * alpha;
+    pixels[index + 3] = alpha;
+  }
+
+  return pixels;
+}
+
+/** One pass of a separable Gaussian; edges repeat the outermost pixel. */
+function blurPass(
+  pixels: Float32Array,
+  width: number,
+  height: number,
+  kernel: Float32Array,
+  horizontal: boolean,
+): Float32Array {
+  const output = new Float32Array(pixels.length);
+  const radius = (kernel.length - 1) / 2;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const target = (y * width + x) * 4;
+      for (let tap = -radius; tap <= radius; tap++) {
+        const sampleX = horizontal ? Math.min(width - 1, Math.max(0, x + tap)) : x;
+        const sampleY = horizontal ? y : Math.min(height - 1, Math.max(0, y + tap));
+        const source = (sampleY * width + sampleX) * 4;
+        const weight = kernel[tap + radius];
+        output[target] += pixels[source] * weight;
+        output[target + 1] += pixels[source + 1] * weight;
+        output[target + 2] += pixels[source + 2] * weight;
+        output[target + 3] += pixels[source + 3] * weight;
+      }
+    }
+  }
+
+  return output;
+}
+
+/** Gaussian blur with standard deviation `sigma` in image pixels, in premultiplied linear light. */
+function blurImage(
+  pixels: Float32Array,
+  width: number,
+  height: number,
+  sigma: number,
+): Float32Array {
+  const radius = Math.ceil(sigma * 3);
+  const kernel = Float32Array.from({ length: radius * 2 + 1 }, (_, index) =>
+    Math.exp(-((index - radius) ** 2) / (2 * sigma * sigma)),
+  );
+  const total = kernel.reduce((sum, weight) => sum + weight, 0);
+  kernel.forEach((weight, index) => {
+    kernel[index] = weight / total;
+  });
+
+  return blurPass(blurPass(pixels, width, height, kernel, true), width, height, kernel, false);
+}
+
+interface ImageCacheEntry {
+  inputs: unknown[];
+  image: PreparedImage;
+}
+
+const imageCache = new WeakMap<BackgroundImageSource, ImageCacheEntry>();
+
+/**
+ * Decodes an image to premultiplied linear light in the output space and
+ * applies its blur. Memoized per source object, so rendering frames with the
+ * same image decodes it once; replace the source object when its pixels change.
+ */
+export function prepareImage(
+  image: BackgroundImage,
+  outputColorSpace: BackgroundOutputColorSpace,
+): PreparedImage {
+  const { source } = image;
+  const blur = Math.max(0, image.blur ?? 0);
+  const inputs = [source.width, source.height, source.data, blur, outputColorSpace];
+  const cached = imageCache.get(source);
+  if (cached && cached.inputs.every((value, index) => value === inputs[index])) {
+    return cached.image;
+  }
+
+  const decoded = decodeImage(source, outputColorSpace);
+  const prepared: PreparedImage = {
+    width: source.width,
+    height: source.height,
+    pixels: blur > EPSILON ? blurImage(decoded, source.width, source.height, blur) : decoded,
+  };
+  imageCache.set(source, { inputs, image: prepared });
+  return prepared;
+}
+
+/** Scales an image to cover or fit inside a `width` × `height` canvas, centered. */
+export function resolveImagePlacement(
+  image: { width: number; height: number },
+  fit: BackgroundImageFit | undefined,
+  width: number,
+  height: number,
+): ImagePlacement {
+  const scaleX = width / image.width;
+  const scaleY = height / image.height;
+  const scale = (fit ?? "cover") === "cover" ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+
+  return {
+    x: (width - image.width * scale) / 2,
+    y: (height - image.height * scale) / 2,
+    scale,
+  };
+}
+
+/** Progress 0 and a mask covering the placed image, for code that only needs geometry. */
+export function sampleImageProgress(
+  layer: ImageLayer,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+): LayerProgress {
+  const placement = resolveImagePlacement(layer.source, layer.fit, width, height);
+  const imageX = (x - placement.x) / placement.scale;
+  const imageY = (y - placement.y) / placement.scale;
+  const inside =
+    imageX >= 0 && imageY >= 0 && imageX <= layer.source.width && imageY <= layer.source.height;
+  return { t: 0, mask: inside ? 1 : 0 };
+}
+
+/**
+ * Bilinear sample at design point `(x, y)`, or null outside the image. Texel
+ * centers sit at half-pixel offsets and edges repeat, so a covering image
+ * has no dark seams at the canvas border.
+ */
+export function sampleImage(
+  image: PreparedImage,
+  placement: ImagePlacement,
+  x: number,
+  y: number,
+): LinearRgba | null {
+  const imageX = (x - placement.x) / placement.scale;
+  const imageY = (y - placement.y) / placement.scale;
+  if (imageX < 0 || imageY < 0 || imageX > image.width || imageY > image.height) {
+    return null;
+  }
+
+  const { width, height, pixels } = image;
+  const left = Math.floor(imageX - 0.5);
+  const top = Math.floor(imageY - 0.5);
+  const fractionX = imageX - 0.5 - left;
+  const fractionY = imageY - 0.5 - top;
+  const texel = (column: number, row: number) =>
+    (Math.min(height - 1, Math.max(0, row)) * width + Math.min(width - 1, Math.max(0, column))) * 4;
+  const corners = [texel(left, top), texel(left + 1, top), texel(left, top + 1), texel(left + 1, top + 1)];
+  const weights = [
+    (1 - fractionX) * (1 - fractionY),
+    fractionX * (1 - fractionY),
+    (1 - fractionX) * fractionY,
+    fractionX * fractionY,
+  ];
+
+  const sum = [0, 0, 0, 0];
+  corners.forEach((offset, corner) => {
+    for (let channel = 0; channel < 4; channel++) {
+      sum[channel] += pixels[offset + channel] * weights[corner];
+    }
+  });
+
+  const alpha = sum[3];
+  if (alpha <= EPSILON) {
+    return { r: 0, g: 0, b: 0, a: 0 };
+  }
+  return { r: sum[0] / alpha, g: sum[1] / alpha, b: sum[2] / alpha, a: alpha };
+}
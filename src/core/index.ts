@@ -14,22 +14,58 @@ export {
 
 // Types
 export type {
+  BackgroundAlphaInterpolation,
   BackgroundArgs,
   BackgroundBlendMode,
   BackgroundColorSpace,
   BackgroundColorStop,
+  BackgroundCompositeSpace,
   BackgroundDither,
   BackgroundDitherMode,
+  BackgroundFreeformWeighting,
+  BackgroundGamutMapping,
   BackgroundGrain,
+  BackgroundHueInterpolation,
+  BackgroundImage,
+  BackgroundImageFit,
+  BackgroundImageSource,
   BackgroundLayer,
   BackgroundLayerBase,
+  BackgroundLayerMask,
+  BackgroundLayerNode,
+  BackgroundMaskOperation,
+  BackgroundMaskSource,
+  BackgroundOutputColorSpace,
+  BackgroundPatternFade,
+  BackgroundPatternKind,
   BackgroundPreset,
   BackgroundGradientColors,
+  BackgroundRenderDiagnostics,
+  BackgroundRenderOptions,
   BackgroundShadow,
+  BackgroundShadowMode,
+  BackgroundShapeKind,
+  BackgroundSpreadMethod,
+  BackgroundTransform,
+  BackgroundWarp,
+  BlobGradientCircle,
+  BlobGradientLayer,
   BoxGradientLayer,
+  ConicGradientLayer,
+  FreeformGradientLayer,
+  FreeformGradientPoint,
+  GroupLayer,
+  ImageLayer,
   LinearGradientLayer,
   LinearRgba,
+  MeshGradientLayer,
+  MeshGradientPoint,
+  MeshHandle,
+  NoiseGradientLayer,
+  PatternGradientLayer,
   RadialGradientLayer,
+  ShapeGradientLayer,
+  StrokeGradientLayer,
 } from "./types";
 
 // Defaults
@@ -42,12 +78,29 @@ export {
 // Color utilities
 export {
   type Oklab,
+  type Oklch,
+  parseCssColor,
   parseColorToLinearRgba,
   linearRgbaToHex,
   clampLinearRgba,
   linearRgbToOklab,
   oklabToLinearRgb,
+  oklabToExtendedLinearRgb,
+  isLinearRgbInGamut,
+  gamutMapLinearRgba,
+  linearSrgbToOutput,
+  outputToLinearSrgb,
+  oklabToOklch,
+  oklchToOklab,
+  interpolateHue,
+  interpolateOklch,
   interpolateLinearRgba,
+  linearSrgbToInterpolationSpace,
+  interpolationSpaceToLinearSrgb,
+  interpolateCoords,
+  getHueComponentIndex,
+  premultiplyCoords,
+  unpremultiplyCoords,
   lerp,
 } from "./color";
 
@@ -59,15 +112,95 @@ export {
   sampleLinearProgress,
   sampleRadialProgress,
   sampleBoxProgress,
+  type CornerRadii,
+  resolveCornerRadii,
+  sampleConicProgress,
+  sampleShapeProgress,
+  DEFAULT_BLOB_K,
+  smoothMin,
+  signedDistanceToBlobs,
+  sampleBlobProgress,
+  DEFAULT_STROKE_WIDTH,
+  sampleStrokeProgress,
+  DEFAULT_PATTERN_SPACING,
+  resolvePatternSize,
+  sampleLineCoverage,
+  samplePatternProgress,
+  resolveRadialFocus,
+  type RadialFocus,
+  applySpreadMethod,
+  type AffineMatrix,
+  resolveLayerTransform,
+  type LayerGeometry,
+  resolveLayerGeometry,
+  type FreeformWeights,
+  resolveFreeformRadius,
+  sampleFreeformWeights,
+  sampleFreeformProgress,
   sampleLayerProgress,
 } from "./math";
 
+// Mesh gradients
+export {
+  type MeshVector,
+  type MeshCurve,
+  type MeshPatch,
+  type MeshHit,
+  buildMeshPatches,
+  invertMeshPatch,
+  locateMeshPoint,
+  getMeshProgress,
+  sampleMeshProgress,
+} from "./mesh";
+
+// Noise fields
+export {
+  MAX_NOISE_OCTAVES,
+  simplexNoise2D,
+  sampleFbm,
+  resolveNoiseOffset,
+  resolveNoiseOctaves,
+  sampleNoiseProgress,
+  warpPoint,
+} from "./noise";
+
+// Shape outlines
+export {
+  SHAPE_CURVE_SEGMENTS,
+  type ShapeSegment,
+  parseSvgPath,
+  buildShapeSegments,
+  resolveShapeSegments,
+  buildStrokeSegments,
+  resolveStrokeSegments,
+  type StrokeHit,
+  locateStrokePoint,
+  signedDistanceToSegments,
+} from "./shape";
+
+// Images
+export {
+  type PreparedImage,
+  type ImagePlacement,
+  prepareImage,
+  resolveImagePlacement,
+  sampleImageProgress,
+  sampleImage,
+} from "./image";
+
 // Engine (CPU renderer)
 export {
   type PreparedStop,
+  type PreparedHardStop,
+  type PreparedMesh,
+  type PreparedMeshColor,
+  type PreparedFreeformPoint,
   type PreparedShadow,
   type PreparedGrain,
   type PreparedLayer,
+  type PreparedLayerMask,
+  type PreparedGroup,
+  type PreparedBaseImage,
   type ResolvedBackgroundArgs,
   parseBackgroundArgs,
   resolveBackgroundArgs,
@@ -1,8 +1,27 @@
+import { sampleImageProgress } from "./image";
+import { buildMeshPatches, sampleMeshProgress, type MeshPatch } from "./mesh";
+import { sampleNoiseProgress, warpPoint } from "./noise";
+import {
+  locateStrokePoint,
+  resolveShapeSegments,
+  resolveStrokeSegments,
+  signedDistanceToSegments,
+  type ShapeSegment,
+} from "./shape";
 import type {
   BackgroundLayer,
+  BlobGradientLayer,
   BoxGradientLayer,
+  ConicGradientLayer,
+  BackgroundSpreadMethod,
+  BackgroundTransform,
+  FreeformGradientLayer,
+  FreeformGradientPoint,
   LinearGradientLayer,
+  PatternGradientLayer,
   RadialGradientLayer,
+  ShapeGradientLayer,
+  StrokeGradientLayer,
 } from "./types";
 
 const EPSILON = 1e-6;
@@ -69,6 +88,46 @@ function applyExponent(value: number, exponent: number | undefined): number {
   return Math.pow(value, safeExponent);
 }
 
+/**
+ * "pad" clamps progress to [0, 1] and applies `exponent`; the repeating
+ * methods leave it unbounded for {@link applySpreadMethod} to fold into the
+ * stop range and shape within each period.
+ */
+function limitProgress(
+  rawT: number,
+  spreadMethod: BackgroundSpreadMethod | undefined,
+  exponent?: number,
+): number {
+  return (spreadMethod ?? "pad") === "pad" ? applyExponent(clamp(rawT, 0, 1), exponent) : rawT;
+}
+
+/**
+ * Fold unbounded progress into the stop range `[first, last]`. "repeat" wraps
+ * with period `last - first` and "reflect" mirrors every other period, then
+ * the layer's easing or falloff `exponent` shapes each period; "pad" returns
+ * `t` unchanged, as its progress is already shaped.
+ */
+export function applySpreadMethod(
+  t: number,
+  spreadMethod: BackgroundSpreadMethod,
+  first: number,
+  last: number,
+  exponent?: number,
+): number {
+  const period = last - first;
+  if (spreadMethod === "pad" || period < EPSILON) {
+    return t;
+  }
+
+  const offset = t - first;
+  const cycle =
+    spreadMethod === "repeat"
+      ? offset - period * Math.floor(offset / period)
+      : offset - 2 * period * Math.floor(offset / (2 * period));
+  const folded = cycle > period ? 2 * period - cycle : cycle;
+  return first + period * applyExponent(clamp(folded / period, 0, 1), exponent);
+}
+
 export function sampleLinearProgress(
   layer: LinearGradientLayer,
   x: number,
@@ -115,16 +174,122 @@ export function sampleLinearProgress(
     rawT = (projection + halfLength) / safeLength;
   }
 
-  const t = applyExponent(clamp(rawT, 0, 1), layer.easing);
+  const t = limitProgress(rawT, layer.spread, layer.easing);
   return { t, mask: 1 };
 }
 
+// Lp norm: p=2 is standard ellipse (L2), p>2 gives squircle shapes.
+function lpNorm(dx: number, dy: number, p: number): number {
+  return p === 2
+    ? Math.sqrt(dx * dx + dy * dy)
+    : Math.pow(Math.pow(Math.abs(dx), p) + Math.pow(Math.abs(dy), p), 1 / p);
+}
+
+/**
+ * Focal circle of a two-point conical radial gradient, in units of the
+ * ellipse radii relative to its center.
+ */
+export interface RadialFocus {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+/** Keeps the focal circle strictly inside the ellipse so every pixel maps to one cone. */
+const MAX_FOCAL_EXTENT = 0.999;
+const FOCAL_BISECTION_STEPS = 24;
+
+export function resolveRadialFocus(
+  layer: RadialGradientLayer,
+  width: number,
+  height: number,
+): RadialFocus | null {
+  if (
+    layer.focalX === undefined &&
+    layer.focalY === undefined &&
+    !layer.focalRadius
+  ) {
+    return null;
+  }
+
+  const cx = layer.centerX ?? width / 2;
+  const cy = layer.centerY ?? height / 2;
+  const rx = Math.max(EPSILON, layer.radiusX ?? width / 2);
+  const ry = Math.max(EPSILON, layer.radiusY ?? height / 2);
+
+  const radius = clamp(layer.focalRadius ?? 0, 0, MAX_FOCAL_EXTENT);
+  let fx = ((layer.focalX ?? cx) - cx) / rx;
+  let fy = ((layer.focalY ?? cy) - cy) / ry;
+
+  // Like SVG 1.1, a focal point outside the ellipse is pulled onto its edge.
+  const extent = lpNorm(fx, fy, layer.power ?? 2);
+  const limit = (1 - radius) * MAX_FOCAL_EXTENT;
+  if (extent > limit) {
+    fx *= limit / extent;
+    fy *= limit / extent;
+  }
+
+  return { x: fx, y: fy, radius };
+}
+
+/**
+ * Cone parameter `s` whose circle (center lerped from the focus to the
+ * origin, radius from `focus.radius` to 1) passes through `(dx, dy)`.
+ * Reduces to the plain Lp distance when the focus is the center.
+ */
+function sampleFocalDistance(
+  dx: number,
+  dy: number,
+  focus: RadialFocus,
+  p: number,
+): number {
+  const qx = dx - focus.x;
+  const qy = dy - focus.y;
+  const reach = 1 - focus.radius;
+
+  const offset = lpNorm(qx, qy, p) - focus.radius;
+  if (offset <= 0) {
+    return 0; // inside the focal circle
+  }
+
+  if (p === 2) {
+    // |q + s·f|² = (r0 + s·reach)², a quadratic with a < 0.
+    const a = focus.x * focus.x + focus.y * focus.y - reach * reach;
+    const b = qx * focus.x + qy * focus.y - focus.radius * reach;
+    const c = qx * qx + qy * qy - focus.radius * focus.radius;
+    return (b + Math.sqrt(Math.max(0, b * b - a * c))) / -a;
+  }
+
+  // The residual is strictly decreasing in s, so bisect within its bound.
+  let low = 0;
+  let high = offset / Math.max(EPSILON, reach - lpNorm(focus.x, focus.y, p));
+  for (let i = 0; i < FOCAL_BISECTION_STEPS; i++) {
+    const mid = (low + high) / 2;
+    const residual =
+      lpNorm(qx + mid * focus.x, qy + mid * focus.y, p) -
+      focus.radius -
+      mid * reach;
+    if (residual > 0) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return (low + high) / 2;
+}
+
+/**
+ * Pass the result of {@link resolveRadialFocus} as `focus` to avoid
+ * recomputing it per pixel.
+ */
 export function sampleRadialProgress(
   layer: RadialGradientLayer,
   x: number,
   y: number,
   width: number,
   height: number,
+  focus = resolveRadialFocus(layer, width, height),
 ): LayerProgress {
   const cx = layer.centerX ?? width / 2;
   const cy = layer.centerY ?? height / 2;
@@ -135,26 +300,66 @@ export function sampleRadialProgress(
   const dx = (x - cx) / rx;
   const dy = (y - cy) / ry;
 
-  // Lp norm: p=2 is standard ellipse (L2), p>2 gives squircle shapes.
   const p = layer.power ?? 2;
-  const distance =
-    p === 2
-      ? Math.sqrt(dx * dx + dy * dy)
-      : Math.pow(
-          Math.pow(Math.abs(dx), p) + Math.pow(Math.abs(dy), p),
-          1 / p,
-        );
+  const distance = focus ? sampleFocalDistance(dx, dy, focus, p) : lpNorm(dx, dy, p);
 
   const innerRadius = layer.innerRadius ?? 0;
   const outerRadius = layer.outerRadius ?? 1;
   const span = Math.max(EPSILON, outerRadius - innerRadius);
 
-  const rawT = clamp((distance - innerRadius) / span, 0, 1);
-  const t = applyExponent(rawT, layer.falloff);
+  const t = limitProgress((distance - innerRadius) / span, layer.spread, layer.falloff);
 
   return { t, mask: 1 };
 }
 
+export function sampleConicProgress(
+  layer: ConicGradientLayer,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+): LayerProgress {
+  const dx = x - (layer.centerX ?? width / 2);
+  const dy = y - (layer.centerY ?? height / 2);
+
+  // Clockwise from 12 o'clock; the center itself sits on the start angle.
+  const angle =
+    Math.hypot(dx, dy) < EPSILON ? 0 : (Math.atan2(dx, -dy) * 180) / Math.PI;
+  const startAngle = layer.startAngle ?? 0;
+  const sweep = Math.max(EPSILON, layer.sweep ?? 360);
+
+  const offset = (((angle - startAngle) % 360) + 360) % 360;
+  return { t: limitProgress(offset / sweep, layer.spread), mask: 1 };
+}
+
+/** Box corner radii in CSS order: top-left, top-right, bottom-right, bottom-left. */
+export type CornerRadii = [number, number, number, number];
+
+/**
+ * Corner radii as drawn on a `width` × `height` box. Like CSS, all radii
+ * shrink by one factor when adjacent ones would overlap; each is also capped
+ * at half the shorter side, which a single radius always was.
+ */
+export function resolveCornerRadii(
+  radius: number | CornerRadii | undefined,
+  width: number,
+  height: number,
+): CornerRadii {
+  const radii = (typeof radius === "number" ? [radius, radius, radius, radius] : (radius ?? [0, 0, 0, 0]))
+    .map((value) => Math.max(0, value)) as CornerRadii;
+  const [topLeft, topRight, bottomRight, bottomLeft] = radii;
+  const scale = Math.min(
+    1,
+    width / Math.max(EPSILON, topLeft + topRight),
+    width / Math.max(EPSILON, bottomLeft + bottomRight),
+    height / Math.max(EPSILON, topLeft + bottomLeft),
+    height / Math.max(EPSILON, topRight + bottomRight),
+  );
+  const cap = Math.min(width, height) / 2;
+
+  return radii.map((value) => Math.min(value * scale, cap)) as CornerRadii;
+}
+
 function signedDistanceRoundedRect(
   x: number,
   y: number,
@@ -162,21 +367,28 @@ function signedDistanceRoundedRect(
   rectY: number,
   rectW: number,
   rectH: number,
-  radius: number,
+  radius: number | CornerRadii,
 ): number {
   const cx = rectX + rectW / 2;
   const cy = rectY + rectH / 2;
   const halfW = rectW / 2;
   const halfH = rectH / 2;
-  const clampedRadius = clamp(radius, 0, Math.min(halfW, halfH));
+  const [topLeft, topRight, bottomRight, bottomLeft] = resolveCornerRadii(radius, rectW, rectH);
+
+  // Each quadrant uses the radius of its own corner (y grows downwards).
+  const right = x > cx;
+  const below = y > cy;
+  const cornerRadius = right
+    ? below ? bottomRight : topRight
+    : below ? bottomLeft : topLeft;
 
-  const qx = Math.abs(x - cx) - (halfW - clampedRadius);
-  const qy = Math.abs(y - cy) - (halfH - clampedRadius);
+  const qx = Math.abs(x - cx) - (halfW - cornerRadius);
+  const qy = Math.abs(y - cy) - (halfH - cornerRadius);
 
   const outside = Math.hypot(Math.max(qx, 0), Math.max(qy, 0));
   const inside = Math.min(Math.max(qx, qy), 0);
 
-  return outside + inside - clampedRadius;
+  return outside + inside - cornerRadius;
 }
 
 /**
@@ -220,6 +432,18 @@ export function sampleBoxProgress(
   const blur = Math.max(0, layer.blur ?? 0);
   const inset = layer.inset ?? true;
 
+  const rotation = layer.rotation ?? 0;
+  if (rotation !== 0) {
+    // Sample the unrotated box at the point rotated back around its center.
+    const angle = (-rotation * Math.PI) / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const dx = x - (rectX + rectW / 2);
+    const dy = y - (rectY + rectH / 2);
+    x = rectX + rectW / 2 + dx * cos - dy * sin;
+    y = rectY + rectH / 2 + dx * sin + dy * cos;
+  }
+
   if (inset) {
     // ── Step 1: Outer clip ──────────────────────────────────────────
     const outerSdf = signedDistanceRoundedRect(
@@ -232,7 +456,10 @@ export function sampleBoxProgress(
     // ── Step 2: Inner contracted "hole" ─────────────────────────────
     const innerW = Math.max(0, rectW - 2 * spread);
     const innerH = Math.max(0, rectH - 2 * spread);
-    const innerR = Math.max(0, radius - spread);
+    const innerR =
+      typeof radius === "number"
+        ? Math.max(0, radius - spread)
+        : (radius.map((value) => Math.max(0, value - spread)) as CornerRadii);
 
     // If spread consumed the entire interior → full shadow everywhere
     if (innerW <= 0 || innerH <= 0) {
@@ -293,20 +520,499 @@ export function sampleBoxProgress(
   return { t: 1.0 - rawAlpha, mask: 1 };
 }
 
+/**
+ * Box-style shadow around an arbitrary outline. Spread shifts the signed
+ * distance instead of shrinking a rectangle, which is the same thing for the
+ * straight edges of a box.
+ */
+export function sampleShapeProgress(
+  layer: ShapeGradientLayer,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  segments = resolveShapeSegments(layer, width, height),
+): LayerProgress {
+  if (segments.length === 0) {
+    return { t: 0, mask: 0 };
+  }
+
+  return sampleOutlineShadow(
+    signedDistanceToSegments(segments, x, y),
+    layer.spread ?? 0,
+    Math.max(0, layer.blur ?? 0),
+    layer.inset ?? true,
+  );
+}
+
+/** Inset or outer shadow progress from the signed distance to an outline. */
+function sampleOutlineShadow(
+  sdf: number,
+  spread: number,
+  blur: number,
+  inset: boolean,
+): LayerProgress {
+  if (inset) {
+    if (sdf > 0) {
+      return { t: 0, mask: 0 };
+    }
+
+    const innerSdf = sdf + spread;
+    if (blur <= EPSILON) {
+      return { t: innerSdf < 0 ? 1 : 0, mask: 1 };
+    }
+    return { t: 1.0 - gaussianShadow(innerSdf, blur), mask: 1 };
+  }
+
+  if (sdf <= 0) {
+    return { t: 0, mask: 0 };
+  }
+
+  if (blur <= EPSILON) {
+    return { t: 0, mask: sdf <= spread ? 1 : 0 };
+  }
+
+  const rawAlpha = 1.0 - gaussianShadow(sdf - spread, blur);
+  if (rawAlpha < 0.001) {
+    return { t: 0, mask: 0 };
+  }
+  return { t: 1.0 - rawAlpha, mask: 1 };
+}
+
+/** Smooth-min blend distance of blob layers, in design pixels. */
+export const DEFAULT_BLOB_K = 40;
+
+/**
+ * Signed distance to an ellipse, exact for circles. Ellipses use Quílez's
+ * first-order approximation, which is close enough for soft edges.
+ */
+function signedDistanceEllipse(dx: number, dy: number, radiusX: number, radiusY: number): number {
+  const k0 = Math.hypot(dx / radiusX, dy / radiusY);
+  const k1 = Math.hypot(dx / (radiusX * radiusX), dy / (radiusY * radiusY));
+  return k1 > EPSILON ? (k0 * (k0 - 1)) / k1 : -Math.min(radiusX, radiusY);
+}
+
+/** Polynomial smooth minimum: equal to `min` once `a` and `b` are `k` apart. */
+export function smoothMin(a: number, b: number, k: number): number {
+  if (k <= EPSILON) {
+    return Math.min(a, b);
+  }
+  const h = Math.max(k - Math.abs(a - b), 0) / k;
+  return Math.min(a, b) - h * h * k * 0.25;
+}
+
+/** Signed distance to the smooth union of a blob layer's circles, offsets applied. */
+export function signedDistanceToBlobs(layer: BlobGradientLayer, x: number, y: number): number {
+  const k = Math.max(0, layer.k ?? DEFAULT_BLOB_K);
+  const px = x - (layer.offsetX ?? 0);
+  const py = y - (layer.offsetY ?? 0);
+  let sdf = Infinity;
+
+  for (const blob of layer.blobs) {
+    const radiusX = Math.max(EPSILON, blob.radiusX);
+    const radiusY = Math.max(EPSILON, blob.radiusY ?? blob.radiusX);
+    const distance = signedDistanceEllipse(px - blob.x, py - blob.y, radiusX, radiusY);
+    sdf = sdf === Infinity ? distance : smoothMin(sdf, distance, k);
+  }
+
+  return sdf;
+}
+
+/** Shape-layer shadow around the smooth union of the layer's blobs. */
+export function sampleBlobProgress(
+  layer: BlobGradientLayer,
+  x: number,
+  y: number,
+): LayerProgress {
+  if (layer.blobs.length === 0) {
+    return { t: 0, mask: 0 };
+  }
+
+  return sampleOutlineShadow(
+    signedDistanceToBlobs(layer, x, y),
+    layer.spread ?? 0,
+    Math.max(0, layer.blur ?? 0),
+    layer.inset ?? true,
+  );
+}
+
+/** Width of a stroke layer's opaque ribbon, in design pixels. */
+export const DEFAULT_STROKE_WIDTH = 40;
+
+/**
+ * Progress along a stroke: `t` is the normalized arc length of the nearest
+ * point on the path and the mask falls off past half the width.
+ */
+export function sampleStrokeProgress(
+  layer: StrokeGradientLayer,
+  x: number,
+  y: number,
+  segments = resolveStrokeSegments(layer),
+): LayerProgress {
+  if (segments.length === 0) {
+    return { t: 0, mask: 0 };
+  }
+
+  const { distance, arcLength, length } = locateStrokePoint(segments, x, y);
+  const edge = distance - Math.max(0, layer.width ?? DEFAULT_STROKE_WIDTH) / 2;
+  const blur = Math.max(0, layer.blur ?? 0);
+  const mask = blur <= EPSILON ? (edge <= 0 ? 1 : 0) : 1 - gaussianShadow(edge, blur);
+  if (mask < 0.001) {
+    return { t: 0, mask: 0 };
+  }
+
+  return { t: arcLength / length, mask };
+}
+
+/** Distance between pattern dots, lines or stripes, in design pixels. */
+export const DEFAULT_PATTERN_SPACING = 24;
+
+/** Default dot diameter or line width of a pattern layer; stripes fill half the spacing. */
+export function resolvePatternSize(layer: PatternGradientLayer, spacing: number): number {
+  const fallback = layer.pattern === "dots" ? 2 : layer.pattern === "stripes" ? spacing / 2 : 1;
+  return clamp(layer.size ?? fallback, 0, spacing);
+}
+
+/**
+ * Share of the span `[u - footprint / 2, u + footprint / 2]` covered by lines
+ * `size` wide centered on multiples of `spacing`: the box filter of the line
+ * pattern, exact at any footprint, so fine patterns fade to their average
+ * instead of aliasing.
+ */
+export function sampleLineCoverage(
+  u: number,
+  spacing: number,
+  size: number,
+  footprint: number,
+): number {
+  const covered = (v: number) => {
+    const shifted = v + size / 2;
+    const period = Math.floor(shifted / spacing);
+    return period * size + clamp(shifted - period * spacing, 0, size);
+  };
+  return clamp((covered(u + footprint / 2) - covered(u - footprint / 2)) / footprint, 0, 1);
+}
+
+/**
+ * Pattern coverage as the layer mask. `footprint` is one output pixel in
+ * layer space; edges blend over it, and dots fade to their average density
+ * once it approaches the spacing.
+ */
+export function samplePatternProgress(
+  layer: PatternGradientLayer,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  footprint = 1,
+): LayerProgress {
+  const spacing = Math.max(EPSILON, layer.spacing ?? DEFAULT_PATTERN_SPACING);
+  const size = resolvePatternSize(layer, spacing);
+  const pixel = Math.max(EPSILON, footprint);
+  const u = x - (layer.offsetX ?? 0);
+  const v = y - (layer.offsetY ?? 0);
+
+  let coverage: number;
+  if (layer.pattern === "dots") {
+    const dx = u - spacing * Math.round(u / spacing);
+    const dy = v - spacing * Math.round(v / spacing);
+    const sharp = clamp(0.5 - (Math.hypot(dx, dy) - size / 2) / pixel, 0, 1);
+    const average = Math.min(1, (Math.PI * size * size) / (4 * spacing * spacing));
+    coverage = sharp + (average - sharp) * clamp((2 * pixel) / spacing - 1, 0, 1);
+  } else if (layer.pattern === "checker") {
+    // The cell right of and below the origin is filled: the checker is the XNOR of two square waves.
+    const across = sampleLineCoverage(u - spacing / 2, 2 * spacing, spacing, pixel);
+    const down = sampleLineCoverage(v - spacing / 2, 2 * spacing, spacing, pixel);
+    coverage = 1 - (across + down - 2 * across * down);
+  } else {
+    const rows = sampleLineCoverage(v, spacing, size, pixel);
+    const columns = layer.pattern === "grid" ? sampleLineCoverage(u, spacing, size, pixel) : 0;
+    coverage = rows + columns - rows * columns;
+  }
+
+  if (!layer.fade) {
+    return { t: 0, mask: coverage };
+  }
+
+  // Fades have no focal point options, so their focus is always the center.
+  const fade = sampleRadialProgress({ type: "radial", ...layer.fade }, x, y, width, height, null);
+  return { t: fade.t, mask: coverage * (1 - fade.t) };
+}
+
+/** Closest a pixel may get to a freeform point when weighting it, so the weight stays finite. */
+export const FREEFORM_MIN_DISTANCE = 0.001;
+
+export interface FreeformWeights extends LayerProgress {
+  /** Normalized weight of each point, summing to 1. */
+  weights: number[];
+}
+
+export function resolveFreeformRadius(
+  point: FreeformGradientPoint,
+  width: number,
+  height: number,
+): number {
+  return Math.max(EPSILON, point.radius ?? Math.hypot(width, height) / 4);
+}
+
+/**
+ * Blend weights of a freeform layer's points at `(x, y)`. Weights are formed
+ * as exponents and normalized against the largest one, so neither a pixel on
+ * top of a point nor one far from every Gaussian overflows or underflows.
+ */
+export function sampleFreeformWeights(
+  layer: FreeformGradientLayer,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+): FreeformWeights {
+  const { points } = layer;
+  if (points.length === 0) {
+    return { t: 0, mask: 0, weights: [] };
+  }
+
+  const radialBasis = layer.weighting === "radial-basis";
+  const power = Math.max(0, layer.power ?? 2);
+  let nearest = Infinity;
+
+  const exponents = points.map((point) => {
+    const radius = resolveFreeformRadius(point, width, height);
+    const distance = Math.hypot(x - point.x, y - point.y);
+    nearest = Math.min(nearest, distance / radius);
+
+    if (radialBasis) {
+      const scaled = distance / radius;
+      return -0.5 * scaled * scaled;
+    }
+    return power * Math.log(radius / Math.max(distance, FREEFORM_MIN_DISTANCE));
+  });
+
+  const largest = Math.max(...exponents);
+  const weights = exponents.map((exponent) => Math.exp(exponent - largest));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  return {
+    t: clamp(nearest, 0, 1),
+    mask: 1,
+    weights: weights.map((weight) => weight / total),
+  };
+}
+
+export function sampleFreeformProgress(
+  layer: FreeformGradientLayer,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+): LayerProgress {
+  const { t, mask } = sampleFreeformWeights(layer, x, y, width, height);
+  return { t, mask };
+}
+
+/** CSS `matrix(a, b, c, d, e, f)`: x' = a·x + c·y + e, y' = b·x + d·y + f. */
+export type AffineMatrix = [number, number, number, number, number, number];
+
+function multiplyAffine(m: AffineMatrix, n: AffineMatrix): AffineMatrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+function composeTransform(transform: BackgroundTransform): AffineMatrix {
+  if (transform.matrix) {
+    return transform.matrix;
+  }
+
+  const toRadians = (degrees: number | undefined) => ((degrees ?? 0) * Math.PI) / 180;
+  const rotate = toRadians(transform.rotate);
+  const cos = Math.cos(rotate);
+  const sin = Math.sin(rotate);
+
+  const translation: AffineMatrix = [
+    1,
+    0,
+    0,
+    1,
+    transform.translateX ?? 0,
+    transform.translateY ?? 0,
+  ];
+  const rotation: AffineMatrix = [cos, sin, -sin, cos, 0, 0];
+  const skew: AffineMatrix = [
+    1,
+    Math.tan(toRadians(transform.skewY)),
+    Math.tan(toRadians(transform.skewX)),
+    1,
+    0,
+    0,
+  ];
+  const scale: AffineMatrix = [transform.scaleX ?? 1, 0, 0, transform.scaleY ?? 1, 0, 0];
+
+  return multiplyAffine(multiplyAffine(multiplyAffine(translation, rotation), skew), scale);
+}
+
+/**
+ * Inverse of a layer transform about its origin, mapping design coordinates
+ * back into layer space. Returns null without a transform, and an all-zero
+ * matrix when the transform is singular (the layer collapses and is hidden).
+ */
+export function resolveLayerTransform(
+  transform: BackgroundTransform | undefined,
+  width: number,
+  height: number,
+): AffineMatrix | null {
+  if (!transform) {
+    return null;
+  }
+
+  const [a, b, c, d, e, f] = composeTransform(transform);
+  const det = a * d - b * c;
+  if (Math.abs(det) < EPSILON) {
+    return [0, 0, 0, 0, 0, 0];
+  }
+
+  const originX = transform.originX ?? width / 2;
+  const originY = transform.originY ?? height / 2;
+  const inverse: AffineMatrix = [
+    d / det,
+    -b / det,
+    -c / det,
+    a / det,
+    (c * f - d * e) / det,
+    (b * e - a * f) / det,
+  ];
+
+  // T(origin) · M⁻¹ · T(-origin)
+  return multiplyAffine(
+    multiplyAffine([1, 0, 0, 1, originX, originY], inverse),
+    [1, 0, 0, 1, -originX, -originY],
+  );
+}
+
+/**
+ * Map design coordinates into layer space through an inverse from
+ * {@link resolveLayerTransform}. Returns null when the layer is collapsed.
+ */
+export function toLayerSpace(
+  inverse: AffineMatrix | null,
+  x: number,
+  y: number,
+): [number, number] | null {
+  if (!inverse) {
+    return [x, y];
+  }
+
+  if (inverse[0] * inverse[3] - inverse[1] * inverse[2] === 0) {
+    return null;
+  }
+
+  return [
+    inverse[0] * x + inverse[2] * y + inverse[4],
+    inverse[1] * x + inverse[3] * y + inverse[5],
+  ];
+}
+
+/** Per-layer values that do not change from pixel to pixel. */
+export interface LayerGeometry {
+  /** Focal circle of a radial layer, see {@link resolveRadialFocus}. */
+  focus: RadialFocus | null;
+  /** Outline of a shape layer or path of a stroke layer. */
+  segments: ShapeSegment[] | null;
+  /** Coons patches of a mesh layer, see {@link buildMeshPatches}. */
+  patches: MeshPatch[] | null;
+}
+
+export function resolveLayerGeometry(
+  layer: BackgroundLayer,
+  width: number,
+  height: number,
+): LayerGeometry {
+  return {
+    focus: layer.type === "radial" ? resolveRadialFocus(layer, width, height) : null,
+    segments:
+      layer.type === "shape"
+        ? resolveShapeSegments(layer, width, height)
+        : layer.type === "stroke"
+          ? resolveStrokeSegments(layer)
+          : null,
+    patches: layer.type === "mesh" ? buildMeshPatches(layer) : null,
+  };
+}
+
+/**
+ * Progress of any layer type at design coordinates `(x, y)`. Pass the results
+ * of {@link resolveLayerTransform} as `inverse` and {@link resolveLayerGeometry}
+ * as `geometry` to avoid recomputing them per pixel. `pixelSize` is one output
+ * pixel in design pixels, for anti-aliased patterns.
+ */
 export function sampleLayerProgress(
   layer: BackgroundLayer,
   x: number,
   y: number,
   width: number,
   height: number,
+  inverse = resolveLayerTransform(layer.transform, width, height),
+  pixelSize = 1,
+  geometry = resolveLayerGeometry(layer, width, height),
 ): LayerProgress {
+  const [warpedX, warpedY] = warpPoint(layer.warp, x, y);
+  const layerPoint = toLayerSpace(inverse, warpedX, warpedY);
+  if (!layerPoint) {
+    return { t: 0, mask: 0 };
+  }
+
+  const [layerX, layerY] = layerPoint;
+
   if (layer.type === "linear") {
-    return sampleLinearProgress(layer, x, y, width, height);
+    return sampleLinearProgress(layer, layerX, layerY, width, height);
   }
 
   if (layer.type === "radial") {
-    return sampleRadialProgress(layer, x, y, width, height);
+    return sampleRadialProgress(layer, layerX, layerY, width, height, geometry.focus);
+  }
+
+  if (layer.type === "conic") {
+    return sampleConicProgress(layer, layerX, layerY, width, height);
+  }
+
+  if (layer.type === "mesh") {
+    return sampleMeshProgress(layer, layerX, layerY, geometry.patches ?? undefined);
+  }
+
+  if (layer.type === "freeform") {
+    return sampleFreeformProgress(layer, layerX, layerY, width, height);
+  }
+
+  if (layer.type === "noise") {
+    return sampleNoiseProgress(layer, layerX, layerY, width, height);
+  }
+
+  if (layer.type === "shape") {
+    return sampleShapeProgress(layer, layerX, layerY, width, height, geometry.segments ?? undefined);
+  }
+
+  if (layer.type === "blob") {
+    return sampleBlobProgress(layer, layerX, layerY);
+  }
+
+  if (layer.type === "stroke") {
+    return sampleStrokeProgress(layer, layerX, layerY, geometry.segments ?? undefined);
+  }
+
+  if (layer.type === "image") {
+    return sampleImageProgress(layer, layerX, layerY, width, height);
+  }
+
+  if (layer.type === "pattern") {
+    // A transform scales the pixel footprint by the root of its determinant.
+    const scale = inverse ? Math.sqrt(Math.abs(inverse[0] * inverse[3] - inverse[1] * inverse[2])) : 1;
+    return samplePatternProgress(layer, layerX, layerY, width, height, pixelSize * scale);
   }
 
-  return sampleBoxProgress(layer, x, y, width, height);
+  return sampleBoxProgress(layer, layerX, layerY, width, height);
 }
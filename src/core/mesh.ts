@@ -0,0 +1,297 @@
+import type { LayerProgress } from "./math";
+import type { MeshGradientLayer, MeshGradientPoint, MeshHandle } from "./types";
+
+const EPSILON = 1e-6;
+
+/** Newton iterations when inverting a patch; converged samples stop early. */
+export const MESH_NEWTON_STEPS = 16;
+/** Residual, in design pixels, at which a patch inversion counts as converged. */
+export const MESH_TOLERANCE = 0.01;
+/** Slack on the [0, 1] patch parameters so shared edges never crack. */
+const MESH_EDGE_EPSILON = 1e-4;
+/** Largest parameter step per Newton iteration. */
+const MESH_MAX_STEP = 0.5;
+
+export type MeshVector = [number, number];
+
+/** Cubic Bézier control points: start, two handles, end. */
+export type MeshCurve = [MeshVector, MeshVector, MeshVector, MeshVector];
+
+/**
+ * One Coons patch of a mesh layer. `top` and `bottom` run along u (left to
+ * right), `left` and `right` along v (top to bottom).
+ */
+export interface MeshPatch {
+  row: number;
+  column: number;
+  top: MeshCurve;
+  bottom: MeshCurve;
+  left: MeshCurve;
+  right: MeshCurve;
+  /** Bounding box of the control points: minX, minY, maxX, maxY. */
+  bounds: [number, number, number, number];
+}
+
+export interface MeshHit {
+  patch: MeshPatch;
+  u: number;
+  v: number;
+}
+
+function buildEdge(
+  start: MeshGradientPoint,
+  end: MeshGradientPoint,
+  startHandle: MeshHandle | undefined,
+  endHandle: MeshHandle | undefined,
+): MeshCurve {
+  const chordX = (end.x - start.x) / 3;
+  const chordY = (end.y - start.y) / 3;
+
+  return [
+    [start.x, start.y],
+    [start.x + (startHandle?.x ?? chordX), start.y + (startHandle?.y ?? chordY)],
+    [end.x - (endHandle?.x ?? chordX), end.y - (endHandle?.y ?? chordY)],
+    [end.x, end.y],
+  ];
+}
+
+function curveBounds(curves: MeshCurve[]): [number, number, number, number] {
+  const bounds: [number, number, number, number] = [
+    Infinity,
+    Infinity,
+    -Infinity,
+    -Infinity,
+  ];
+
+  for (const curve of curves) {
+    for (const [x, y] of curve) {
+      bounds[0] = Math.min(bounds[0], x);
+      bounds[1] = Math.min(bounds[1], y);
+      bounds[2] = Math.max(bounds[2], x);
+      bounds[3] = Math.max(bounds[3], y);
+    }
+  }
+
+  return bounds;
+}
+
+/** Validates the control grid and builds its patches in row-major order. */
+export function buildMeshPatches(layer: MeshGradientLayer): MeshPatch[] {
+  const { points } = layer;
+  const columns = points[0]?.length ?? 0;
+  if (points.length < 2 || columns < 2) {
+    throw new Error("Mesh layer needs at least 2 rows of 2 points.");
+  }
+
+  points.forEach((row, index) => {
+    if (row.length !== columns) {
+      throw new Error(
+        `Mesh layer row ${index} has ${row.length} points, expected ${columns}.`,
+      );
+    }
+  });
+
+  const rowEdge = (row: number, column: number) =>
+    buildEdge(
+      points[row][column],
+      points[row][column + 1],
+      points[row][column].rowHandle,
+      points[row][column + 1].rowHandle,
+    );
+  const columnEdge = (row: number, column: number) =>
+    buildEdge(
+      points[row][column],
+      points[row + 1][column],
+      points[row][column].columnHandle,
+      points[row + 1][column].columnHandle,
+    );
+
+  const patches: MeshPatch[] = [];
+  for (let row = 0; row < points.length - 1; row++) {
+    for (let column = 0; column < columns - 1; column++) {
+      const top = rowEdge(row, column);
+      const bottom = rowEdge(row + 1, column);
+      const left = columnEdge(row, column);
+      const right = columnEdge(row, column + 1);
+      patches.push({
+        row,
+        column,
+        top,
+        bottom,
+        left,
+        right,
+        bounds: curveBounds([top, bottom, left, right]),
+      });
+    }
+  }
+
+  return patches;
+}
+
+function bezierPoint(curve: MeshCurve, t: number): MeshVector {
+  const s = 1 - t;
+  const w0 = s * s * s;
+  const w1 = 3 * s * s * t;
+  const w2 = 3 * s * t * t;
+  const w3 = t * t * t;
+  return [
+    w0 * curve[0][0] + w1 * curve[1][0] + w2 * curve[2][0] + w3 * curve[3][0],
+    w0 * curve[0][1] + w1 * curve[1][1] + w2 * curve[2][1] + w3 * curve[3][1],
+  ];
+}
+
+function bezierTangent(curve: MeshCurve, t: number): MeshVector {
+  const s = 1 - t;
+  const w0 = 3 * s * s;
+  const w1 = 6 * s * t;
+  const w2 = 3 * t * t;
+  return [
+    w0 * (curve[1][0] - curve[0][0]) +
+      w1 * (curve[2][0] - curve[1][0]) +
+      w2 * (curve[3][0] - curve[2][0]),
+    w0 * (curve[1][1] - curve[0][1]) +
+      w1 * (curve[2][1] - curve[1][1]) +
+      w2 * (curve[3][1] - curve[2][1]),
+  ];
+}
+
+/**
+ * Coons surface S(u, v) = ruled(top, bottom) + ruled(left, right) − bilinear(corners),
+ * with its partial derivatives for Newton's method.
+ */
+function evaluatePatch(
+  patch: MeshPatch,
+  u: number,
+  v: number,
+): { point: MeshVector; du: MeshVector; dv: MeshVector } {
+  const { top, bottom, left, right } = patch;
+  const p00 = top[0];
+  const p10 = top[3];
+  const p01 = bottom[0];
+  const p11 = bottom[3];
+
+  const topPoint = bezierPoint(top, u);
+  const bottomPoint = bezierPoint(bottom, u);
+  const leftPoint = bezierPoint(left, v);
+  const rightPoint = bezierPoint(right, v);
+  const topTangent = bezierTangent(top, u);
+  const bottomTangent = bezierTangent(bottom, u);
+  const leftTangent = bezierTangent(left, v);
+  const rightTangent = bezierTangent(right, v);
+
+  const point: MeshVector = [0, 0];
+  const du: MeshVector = [0, 0];
+  const dv: MeshVector = [0, 0];
+  for (let axis = 0; axis < 2; axis++) {
+    const bilinear =
+      (1 - u) * (1 - v) * p00[axis] +
+      u * (1 - v) * p10[axis] +
+      (1 - u) * v * p01[axis] +
+      u * v * p11[axis];
+    point[axis] =
+      (1 - v) * topPoint[axis] +
+      v * bottomPoint[axis] +
+      (1 - u) * leftPoint[axis] +
+      u * rightPoint[axis] -
+      bilinear;
+    du[axis] =
+      (1 - v) * topTangent[axis] +
+      v * bottomTangent[axis] -
+      leftPoint[axis] +
+      rightPoint[axis] -
+      ((1 - v) * (p10[axis] - p00[axis]) + v * (p11[axis] - p01[axis]));
+    dv[axis] =
+      bottomPoint[axis] -
+      topPoint[axis] +
+      (1 - u) * leftTangent[axis] +
+      u * rightTangent[axis] -
+      ((1 - u) * (p01[axis] - p00[axis]) + u * (p11[axis] - p10[axis]));
+  }
+
+  return { point, du, dv };
+}
+
+/**
+ * Patch parameters `[u, v]` of design point `(x, y)`, found with damped
+ * Newton iterations from the patch center, or null when the point lies
+ * outside the patch.
+ */
+export function invertMeshPatch(
+  patch: MeshPatch,
+  x: number,
+  y: number,
+): MeshVector | null {
+  let u = 0.5;
+  let v = 0.5;
+
+  for (let step = 0; step < MESH_NEWTON_STEPS; step++) {
+    const { point, du, dv } = evaluatePatch(patch, u, v);
+    const errorX = point[0] - x;
+    const errorY = point[1] - y;
+    if (Math.abs(errorX) + Math.abs(errorY) < MESH_TOLERANCE) {
+      const inside =
+        u >= -MESH_EDGE_EPSILON &&
+        u <= 1 + MESH_EDGE_EPSILON &&
+        v >= -MESH_EDGE_EPSILON &&
+        v <= 1 + MESH_EDGE_EPSILON;
+      return inside ? [Math.min(1, Math.max(0, u)), Math.min(1, Math.max(0, v))] : null;
+    }
+
+    const det = du[0] * dv[1] - dv[0] * du[1];
+    if (Math.abs(det) < EPSILON) {
+      return null;
+    }
+
+    let stepU = (dv[1] * errorX - dv[0] * errorY) / det;
+    let stepV = (du[0] * errorY - du[1] * errorX) / det;
+    const length = Math.max(Math.abs(stepU), Math.abs(stepV));
+    if (length > MESH_MAX_STEP) {
+      stepU *= MESH_MAX_STEP / length;
+      stepV *= MESH_MAX_STEP / length;
+    }
+
+    u -= stepU;
+    v -= stepV;
+  }
+
+  return null;
+}
+
+/** Where the mesh folds over itself, later patches paint over earlier ones, as in PDF shadings. */
+export function locateMeshPoint(
+  patches: MeshPatch[],
+  x: number,
+  y: number,
+): MeshHit | null {
+  for (let index = patches.length - 1; index >= 0; index--) {
+    const patch = patches[index];
+    const [minX, minY, maxX, maxY] = patch.bounds;
+    if (x < minX || x > maxX || y < minY || y > maxY) {
+      continue;
+    }
+
+    const uv = invertMeshPatch(patch, x, y);
+    if (uv) {
+      return { patch, u: uv[0], v: uv[1] };
+    }
+  }
+
+  return null;
+}
+
+/** Shadow progress of a hit: 0 on the first row of points, 1 on the last. */
+export function getMeshProgress(hit: MeshHit, rows: number): number {
+  return (hit.patch.row + hit.v) / (rows - 1);
+}
+
+export function sampleMeshProgress(
+  layer: MeshGradientLayer,
+  x: number,
+  y: number,
+  patches = buildMeshPatches(layer),
+): LayerProgress {
+  const hit = locateMeshPoint(patches, x, y);
+  return hit
+    ? { t: getMeshProgress(hit, layer.points.length), mask: 1 }
+    : { t: 0, mask: 0 };
+}
@@ -0,0 +1,185 @@
+import type { LayerProgress } from "./math";
+import type { BackgroundWarp, NoiseGradientLayer } from "./types";
+
+/** Octaves the WebGL shader can unroll; the CPU clamps to the same range. */
+export const MAX_NOISE_OCTAVES = 8;
+
+// Skew factors for the 2D simplex grid, and 1/41 for the gradient ring.
+const SIMPLEX_G2 = 0.211324865405187; // (3 − √3) / 6
+const SIMPLEX_F2 = 0.366025403784439; // (√3 − 1) / 2
+const SIMPLEX_CORNER = -0.577350269189626; // −1 + 2·G2
+const GRADIENT_RING = 0.024390243902439; // 1 / 41
+
+/** Octaves are shifted apart so their lattices never line up. */
+const OCTAVE_SHIFT_X = 17;
+const OCTAVE_SHIFT_Y = 29;
+
+/** Shift between the x and y displacement fields of a warp. */
+const WARP_SHIFT_X = 5.2;
+const WARP_SHIFT_Y = 1.3;
+
+const fract = (value: number): number => value - Math.floor(value);
+
+function mod289(value: number): number {
+  return value - Math.floor(value / 289) * 289;
+}
+
+/**
+ * Permutation polynomial (34x² + 10x) mod 289. Every intermediate is an
+ * integer below 2²⁴, so float32 GPUs hash exactly like the CPU does.
+ */
+function permute(value: number): number {
+  return mod289((value * 34 + 10) * value);
+}
+
+/**
+ * 2D simplex noise in about [-1, 1], after Gustavson and McEwan's
+ * "webgl-noise". The shader runs the same arithmetic step by step.
+ */
+export function simplexNoise2D(x: number, y: number): number {
+  // First corner of the containing simplex.
+  const skew = (x + y) * SIMPLEX_F2;
+  let cellX = Math.floor(x + skew);
+  let cellY = Math.floor(y + skew);
+  const unskew = (cellX + cellY) * SIMPLEX_G2;
+  const x0 = x - cellX + unskew;
+  const y0 = y - cellY + unskew;
+
+  // Middle corner: step along x first in the lower triangle.
+  const stepX = x0 > y0 ? 1 : 0;
+  const stepY = 1 - stepX;
+  const x1 = x0 + SIMPLEX_G2 - stepX;
+  const y1 = y0 + SIMPLEX_G2 - stepY;
+  const x2 = x0 + SIMPLEX_CORNER;
+  const y2 = y0 + SIMPLEX_CORNER;
+
+  cellX = mod289(cellX);
+  cellY = mod289(cellY);
+  const hashes = [
+    permute(permute(cellY) + cellX),
+    permute(permute(cellY + stepY) + cellX + stepX),
+    permute(permute(cellY + 1) + cellX + 1),
+  ];
+  const offsets = [
+    [x0, y0],
+    [x1, y1],
+    [x2, y2],
+  ];
+
+  let sum = 0;
+  for (let corner = 0; corner < 3; corner++) {
+    const [dx, dy] = offsets[corner];
+    let falloff = Math.max(0.5 - (dx * dx + dy * dy), 0);
+    falloff *= falloff;
+    falloff *= falloff;
+
+    // Gradients on a ring of 41 directions, normalized by a Taylor
+    // approximation of the inverse square root.
+    const ring = 2 * fract(hashes[corner] * GRADIENT_RING) - 1;
+    const gradientY = Math.abs(ring) - 0.5;
+    const gradientX = ring - Math.floor(ring + 0.5);
+    falloff *=
+      1.79284291400159 -
+      0.85373472095314 * (gradientX * gradientX + gradientY * gradientY);
+
+    sum += falloff * (gradientX * dx + gradientY * dy);
+  }
+
+  return 130 * sum;
+}
+
+/**
+ * Lattice offset for `seed`, reduced mod 289 so large seeds keep float32
+ * precision in the shader.
+ */
+export function resolveNoiseOffset(seed: number): [number, number] {
+  return [mod289(seed * 127.1), mod289(seed * 311.7)];
+}
+
+export function resolveNoiseOctaves(octaves: number | undefined): number {
+  return Math.min(MAX_NOISE_OCTAVES, Math.max(1, Math.round(octaves ?? 4)));
+}
+
+/**
+ * Fractal Brownian motion: `octaves` layers of simplex noise, each
+ * `lacunarity` times finer and `gain` times weaker than the last, normalized
+ * by the total amplitude to about [-1, 1].
+ */
+export function sampleFbm(
+  x: number,
+  y: number,
+  octaves: number,
+  lacunarity: number,
+  gain: number,
+  offset: [number, number],
+): number {
+  let frequency = 1;
+  let amplitude = 1;
+  let sum = 0;
+  let total = 0;
+
+  for (let octave = 0; octave < octaves; octave++) {
+    sum +=
+      amplitude *
+      simplexNoise2D(
+        x * frequency + offset[0] + octave * OCTAVE_SHIFT_X,
+        y * frequency + offset[1] + octave * OCTAVE_SHIFT_Y,
+      );
+    total += amplitude;
+    frequency *= lacunarity;
+    amplitude *= gain;
+  }
+
+  return total > 0 ? sum / total : 0;
+}
+
+/**
+ * Design point `(x, y)` displaced by `warp`. Each axis has its own fBm field
+ * (lacunarity 2, gain 0.5), so a warp bends edges instead of sliding them.
+ */
+export function warpPoint(
+  warp: BackgroundWarp | undefined,
+  x: number,
+  y: number,
+): [number, number] {
+  const amplitude = warp?.amplitude ?? 40;
+  if (!warp || amplitude === 0) {
+    return [x, y];
+  }
+
+  const frequency = warp.frequency ?? 0.005;
+  const octaves = resolveNoiseOctaves(warp.octaves ?? 2);
+  const [offsetX, offsetY] = resolveNoiseOffset(warp.seed ?? 0);
+  const noiseX = x * frequency;
+  const noiseY = y * frequency;
+
+  return [
+    x + amplitude * sampleFbm(noiseX, noiseY, octaves, 2, 0.5, [offsetX, offsetY]),
+    y +
+      amplitude *
+        sampleFbm(noiseX, noiseY, octaves, 2, 0.5, [
+          offsetX + WARP_SHIFT_X,
+          offsetY + WARP_SHIFT_Y,
+        ]),
+  ];
+}
+
+export function sampleNoiseProgress(
+  layer: NoiseGradientLayer,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+): LayerProgress {
+  const scale = Math.max(1, layer.scale ?? Math.max(width, height) / 2);
+  const value = sampleFbm(
+    x / scale,
+    y / scale,
+    resolveNoiseOctaves(layer.octaves),
+    Math.max(1, layer.lacunarity ?? 2),
+    Math.max(0, layer.gain ?? 0.5),
+    resolveNoiseOffset(layer.seed ?? 0),
+  );
+
+  return { t: Math.min(1, Math.max(0, 0.5 + 0.5 * value)), mask: 1 };
+}
@@ -0,0 +1,346 @@
+import type { ShapeGradientLayer, StrokeGradientLayer } from "./types";
+
+/** Line segments each Bézier curve of a path is flattened into. */
+export const SHAPE_CURVE_SEGMENTS = 12;
+
+/** A straight edge of a flattened outline: x0, y0, x1, y1. */
+export type ShapeSegment = [number, number, number, number];
+
+type Point = [number, number];
+
+const PATH_TOKEN = /([MmLlHhVvCcQqZz])|([-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)/g;
+
+function regularOutline(
+  centerX: number,
+  centerY: number,
+  radii: number[],
+  rotation: number,
+): Point[] {
+  // Vertices clockwise from 12 o'clock, like conic angles.
+  return radii.map((radius, index) => {
+    const angle = ((rotation + (index * 360) / radii.length) * Math.PI) / 180;
+    return [centerX + radius * Math.sin(angle), centerY - radius * Math.cos(angle)];
+  });
+}
+
+function flattenCurve(points: Point[], loop: Point[]): void {
+  for (let step = 1; step <= SHAPE_CURVE_SEGMENTS; step++) {
+    const t = step / SHAPE_CURVE_SEGMENTS;
+    // De Casteljau works for both quadratic and cubic control polygons.
+    let level = points;
+    while (level.length > 1) {
+      level = level.slice(1).map(([x, y], index) => [
+        level[index][0] + (x - level[index][0]) * t,
+        level[index][1] + (y - level[index][1]) * t,
+      ]);
+    }
+    loop.push(level[0]);
+  }
+}
+
+interface Subpath {
+  points: Point[];
+  /** Ended by Z; strokes then run back to the start. */
+  closed: boolean;
+}
+
+/** Flattens SVG path data into subpaths; see {@link parseSvgPath}. */
+function parseSvgSubpaths(d: string): Subpath[] {
+  const tokens = Array.from(d.matchAll(PATH_TOKEN), (match) => match[0]);
+  const subpaths: Subpath[] = [];
+  let loop: Point[] = [];
+  let current: Point = [0, 0];
+  let start: Point = [0, 0];
+  let command = "";
+  let index = 0;
+
+  const unparsed = d.replace(PATH_TOKEN, "").replace(/[\s,]/g, "");
+  if (unparsed) {
+    throw new Error(`Unsupported SVG path data "${unparsed.slice(0, 10)}".`);
+  }
+
+  const readNumber = (): number => {
+    const value = Number(tokens[index++]);
+    if (Number.isNaN(value)) {
+      throw new Error(`SVG path command "${command}" is missing coordinates.`);
+    }
+    return value;
+  };
+  const readPoint = (relative: boolean): Point => {
+    const x = readNumber();
+    const y = readNumber();
+    return relative ? [current[0] + x, current[1] + y] : [x, y];
+  };
+  const closeLoop = (closed: boolean) => {
+    if (loop.length > 1) {
+      subpaths.push({ points: loop, closed });
+    }
+    loop = [];
+  };
+
+  while (index < tokens.length) {
+    if (/^[a-zA-Z]$/.test(tokens[index])) {
+      command = tokens[index++];
+    } else if (!command) {
+      throw new Error("SVG path data must start with a command.");
+    }
+
+    const relative = command === command.toLowerCase();
+    switch (command.toUpperCase()) {
+      case "M":
+        closeLoop(false);
+        current = readPoint(relative);
+        start = current;
+        loop.push(current);
+        // Further coordinate pairs are implicit line-tos.
+        command = relative ? "l" : "L";
+        break;
+      case "L":
+        current = readPoint(relative);
+        loop.push(current);
+        break;
+      case "H":
+        current = [relative ? current[0] + readNumber() : readNumber(), current[1]];
+        loop.push(current);
+        break;
+      case "V":
+        current = [current[0], relative ? current[1] + readNumber() : readNumber()];
+        loop.push(current);
+        break;
+      case "C": {
+        const controls = [readPoint(relative), readPoint(relative), readPoint(relative)];
+        flattenCurve([current, ...controls], loop);
+        current = controls[2];
+        break;
+      }
+      case "Q": {
+        const controls = [readPoint(relative), readPoint(relative)];
+        flattenCurve([current, ...controls], loop);
+        current = controls[1];
+        break;
+      }
+      case "Z":
+        closeLoop(true);
+        current = start;
+        loop.push(current);
+        command = "";
+        break;
+    }
+  }
+  closeLoop(false);
+
+  return subpaths;
+}
+
+/**
+ * Flattens SVG path data into closed loops. Supports M, L, H, V, C, Q and Z
+ * in absolute and relative form; every subpath is closed, as a fill would be.
+ */
+export function parseSvgPath(d: string): Point[][] {
+  return parseSvgSubpaths(d).map((subpath) => subpath.points);
+}
+
+/** The shape's closed outline loops, before `offsetX`/`offsetY`. */
+function buildShapeLoops(
+  layer: ShapeGradientLayer,
+  width: number,
+  height: number,
+): Point[][] {
+  if (layer.shape === "path") {
+    return parseSvgPath(layer.path ?? "");
+  }
+
+  const centerX = layer.centerX ?? width / 2;
+  const centerY = layer.centerY ?? height / 2;
+  const radius = Math.max(0, layer.radius ?? Math.min(width, height) / 2);
+  const rotation = layer.rotation ?? 0;
+
+  if (layer.shape === "star") {
+    const points = Math.max(2, Math.round(layer.sides ?? 5));
+    const inner = radius * Math.max(0, layer.innerRadius ?? 0.5);
+    const radii = Array.from({ length: points * 2 }, (_, index) =>
+      index % 2 === 0 ? radius : inner,
+    );
+    return [regularOutline(centerX, centerY, radii, rotation)];
+  }
+
+  const sides = Math.max(3, Math.round(layer.sides ?? 6));
+  return [regularOutline(centerX, centerY, new Array(sides).fill(radius), rotation)];
+}
+
+export function buildShapeSegments(
+  layer: ShapeGradientLayer,
+  width: number,
+  height: number,
+): ShapeSegment[] {
+  const offsetX = layer.offsetX ?? 0;
+  const offsetY = layer.offsetY ?? 0;
+  const segments: ShapeSegment[] = [];
+
+  for (const loop of buildShapeLoops(layer, width, height)) {
+    loop.forEach(([x0, y0], index) => {
+      const [x1, y1] = loop[(index + 1) % loop.length];
+      if (x0 !== x1 || y0 !== y1) {
+        segments.push([x0 + offsetX, y0 + offsetY, x1 + offsetX, y1 + offsetY]);
+      }
+    });
+  }
+
+  return segments;
+}
+
+/**
+ * Segments of a stroke layer's path in drawing order, so arc length adds up
+ * along the array. Open subpaths are not closed; jumps between subpaths
+ * add no length.
+ */
+export function buildStrokeSegments(layer: StrokeGradientLayer): ShapeSegment[] {
+  const offsetX = layer.offsetX ?? 0;
+  const offsetY = layer.offsetY ?? 0;
+  const segments: ShapeSegment[] = [];
+
+  for (const { points, closed } of parseSvgSubpaths(layer.path)) {
+    const ends = closed ? [...points, points[0]] : points;
+    for (let index = 1; index < ends.length; index++) {
+      const [x0, y0] = ends[index - 1];
+      const [x1, y1] = ends[index];
+      if (x0 !== x1 || y0 !== y1) {
+        segments.push([x0 + offsetX, y0 + offsetY, x1 + offsetX, y1 + offsetY]);
+      }
+    }
+  }
+
+  return segments;
+}
+
+interface ShapeCacheEntry {
+  inputs: unknown[];
+  segments: ShapeSegment[];
+}
+
+const shapeCache = new WeakMap<object, ShapeCacheEntry>();
+
+function cachedSegments(
+  layer: object,
+  inputs: unknown[],
+  build: () => ShapeSegment[],
+): ShapeSegment[] {
+  const cached = shapeCache.get(layer);
+  if (cached && cached.inputs.every((value, index) => value === inputs[index])) {
+    return cached.segments;
+  }
+
+  const segments = build();
+  shapeCache.set(layer, { inputs, segments });
+  return segments;
+}
+
+/**
+ * {@link buildShapeSegments}, memoized per layer object so animation frames
+ * that keep the geometry do not re-parse path data. Edits to the layer's
+ * geometry invalidate it. Renderers resolve it once per layer per render.
+ */
+export function resolveShapeSegments(
+  layer: ShapeGradientLayer,
+  width: number,
+  height: number,
+): ShapeSegment[] {
+  const inputs = [
+    layer.shape,
+    layer.path,
+    layer.sides,
+    layer.centerX,
+    layer.centerY,
+    layer.radius,
+    layer.innerRadius,
+    layer.rotation,
+    layer.offsetX,
+    layer.offsetY,
+    width,
+    height,
+  ];
+  return cachedSegments(layer, inputs, () => buildShapeSegments(layer, width, height));
+}
+
+/** {@link buildStrokeSegments}, memoized like {@link resolveShapeSegments}. */
+export function resolveStrokeSegments(layer: StrokeGradientLayer): ShapeSegment[] {
+  return cachedSegments(layer, [layer.path, layer.offsetX, layer.offsetY], () =>
+    buildStrokeSegments(layer),
+  );
+}
+
+export interface StrokeHit {
+  /** Distance from the point to the path. */
+  distance: number;
+  /** Arc length from the start of the path to the nearest point on it. */
+  arcLength: number;
+  /** Total arc length of the path. */
+  length: number;
+}
+
+/** Nearest point on a stroke's segments; on ties the earlier segment wins. */
+export function locateStrokePoint(
+  segments: ShapeSegment[],
+  x: number,
+  y: number,
+): StrokeHit {
+  let nearest = Infinity;
+  let arcLength = 0;
+  let length = 0;
+
+  for (const [x0, y0, x1, y1] of segments) {
+    const edgeX = x1 - x0;
+    const edgeY = y1 - y0;
+    const toX = x - x0;
+    const toY = y - y0;
+    const lengthSq = edgeX * edgeX + edgeY * edgeY;
+    const t = Math.min(1, Math.max(0, (toX * edgeX + toY * edgeY) / lengthSq));
+    const dx = toX - edgeX * t;
+    const dy = toY - edgeY * t;
+    const segmentLength = Math.sqrt(lengthSq);
+    if (dx * dx + dy * dy < nearest) {
+      nearest = dx * dx + dy * dy;
+      arcLength = length + t * segmentLength;
+    }
+    length += segmentLength;
+  }
+
+  return { distance: Math.sqrt(nearest), arcLength, length };
+}
+
+/**
+ * Signed distance from `(x, y)` to the outline: negative inside under the
+ * nonzero fill rule (the SVG default), positive outside.
+ */
+export function signedDistanceToSegments(
+  segments: ShapeSegment[],
+  x: number,
+  y: number,
+): number {
+  let nearest = Infinity;
+  let winding = 0;
+
+  for (const [x0, y0, x1, y1] of segments) {
+    const edgeX = x1 - x0;
+    const edgeY = y1 - y0;
+    const toX = x - x0;
+    const toY = y - y0;
+    const lengthSq = edgeX * edgeX + edgeY * edgeY;
+    const t = lengthSq > 0 ? Math.min(1, Math.max(0, (toX * edgeX + toY * edgeY) / lengthSq)) : 0;
+    const dx = toX - edgeX * t;
+    const dy = toY - edgeY * t;
+    nearest = Math.min(nearest, dx * dx + dy * dy);
+
+    const cross = edgeX * toY - edgeY * toX;
+    if (y0 <= y) {
+      if (y1 > y && cross > 0) {
+        winding++;
+      }
+    } else if (y1 <= y && cross < 0) {
+      winding--;
+    }
+  }
+
+  const distance = Math.sqrt(nearest);
+  return winding !== 0 ? -distance : distance;
+}
@@ -1,8 +1,89 @@
 import type { DitherMode } from "./dither";
 
-export type BackgroundBlendMode = "normal" | "add" | "multiply" | "screen";
+/**
+ * How a layer's color combines with what is below it, as in CSS
+ * `mix-blend-mode` plus `add`. Blending runs on linear-light values.
+ */
+export type BackgroundBlendMode =
+  | "normal"
+  | "add"
+  | "multiply"
+  | "screen"
+  | "overlay"
+  | "darken"
+  | "lighten"
+  | "color-dodge"
+  | "color-burn"
+  | "hard-light"
+  | "soft-light"
+  | "difference"
+  | "exclusion"
+  | "hue"
+  | "saturation"
+  | "color"
+  | "luminosity";
 
-export type BackgroundColorSpace = "linear-srgb" | "oklab";
+/**
+ * Where layers are blended and mixed by opacity. `"linear"` is physically
+ * correct light; `"srgb"` blends gamma-encoded channels like CSS and most
+ * design tools; `"oklab"` blends in linear light but fades by opacity in
+ * Oklab, for perceptually even opacity steps.
+ */
+export type BackgroundCompositeSpace = "linear" | "srgb" | "oklab";
+
+export type BackgroundColorSpace =
+  | "linear-srgb"
+  | "srgb"
+  | "oklab"
+  | "oklch"
+  | "lab"
+  | "lch"
+  | "xyz"
+  | "hsl"
+  | "hwb";
+
+/** CSS `<hue-interpolation-method>`, used when `colorSpace` is polar. */
+export type BackgroundHueInterpolation =
+  | "shorter"
+  | "longer"
+  | "increasing"
+  | "decreasing";
+
+/**
+ * How colors that interpolate outside the output gamut are brought back in.
+ * "clip" clamps each channel (fast, may shift hue); "css" follows the
+ * CSS Color 4 gamut-mapping algorithm, reducing OKLCH chroma at constant
+ * lightness and hue until the color fits.
+ */
+export type BackgroundGamutMapping = "clip" | "css";
+
+/**
+ * How stop alpha combines with color during interpolation. "premultiplied"
+ * matches CSS gradients, so a fade to a transparent stop never picks up that
+ * stop's color; "straight" interpolates color and alpha independently.
+ */
+export type BackgroundAlphaInterpolation = "premultiplied" | "straight";
+
+/**
+ * Color space of the encoded output. "display-p3" renders in the wider P3
+ * gamut and tags canvases/ImageData accordingly; both use the sRGB transfer
+ * curve, so dithering and grain behave identically.
+ */
+export type BackgroundOutputColorSpace = "srgb" | "display-p3";
+
+/**
+ * What a gradient does past its stop range, like SVG `spreadMethod`. "pad"
+ * extends the end colors; "repeat" tiles the stops (CSS `repeating-*-gradient`);
+ * "reflect" tiles them mirrored on every other period.
+ */
+export type BackgroundSpreadMethod = "pad" | "repeat" | "reflect";
+
+/**
+ * How a freeform layer weights its points: "inverse-distance" is Shepard
+ * interpolation, exact at every point; "radial-basis" uses a Gaussian around
+ * each point for softer, blobbier blends.
+ */
+export type BackgroundFreeformWeighting = "inverse-distance" | "radial-basis";
 
 export type BackgroundDitherMode = DitherMode | "none";
 export type BackgroundPreset = "video" | "still";
@@ -19,10 +100,23 @@ export interface BackgroundGradientColors {
   end: string;
 }
 
+/** How a shadow moves a layer's color toward the shadow's `color`. */
+export type BackgroundShadowMode = "darken" | "tint" | "lighten";
+
 export interface BackgroundShadow {
   startIntensity?: number;
   endIntensity?: number;
   curve?: number;
+  /** Target color, clipped to the output gamut; its alpha is ignored. Default: "#000000". */
+  color?: string;
+  /**
+   * At full intensity, `"darken"` multiplies the layer by `color`, `"tint"`
+   * replaces it with `color` and `"lighten"` screens it with `color`.
+   * Default: "darken", which with the default black is a plain darkening.
+   */
+  mode?: BackgroundShadowMode;
+  /** Where the color moves toward that result by intensity. Default: "linear". */
+  space?: BackgroundCompositeSpace;
 }
 
 export interface BackgroundGrain {
@@ -32,16 +126,96 @@ export interface BackgroundGrain {
   monochrome?: boolean;
 }
 
+/**
+ * 2D affine transform of a layer, applied around `originX`/`originY` like CSS
+ * `transform` with `transform-origin`. The components compose as
+ * translate · rotate · skew · scale; a `matrix` replaces them.
+ */
+export interface BackgroundTransform {
+  /** CSS `matrix(a, b, c, d, e, f)`. Overrides the components below. */
+  matrix?: [number, number, number, number, number, number];
+  translateX?: number;
+  translateY?: number;
+  /** Degrees, clockwise. */
+  rotate?: number;
+  /** Degrees, like CSS `skew()`. */
+  skewX?: number;
+  skewY?: number;
+  scaleX?: number;
+  scaleY?: number;
+  /** Pivot in design pixels. Default: the canvas center. */
+  originX?: number;
+  originY?: number;
+}
+
+/**
+ * Displaces a layer's sampling coordinates with two seeded fBm fields, one per
+ * axis, for organic, liquid edges.
+ */
+export interface BackgroundWarp {
+  /** Largest displacement in design pixels. Default: 40. */
+  amplitude?: number;
+  /** Cycles per design pixel of the coarsest octave, like SVG `baseFrequency`. Default: 0.005. */
+  frequency?: number;
+  /** Noise layers summed, 1–8. Default: 2. */
+  octaves?: number;
+  /** Default: 0. */
+  seed?: number;
+}
+
+export type BackgroundMaskSource = "alpha" | "progress";
+
+export type BackgroundMaskOperation = "multiply" | "intersect" | "subtract";
+
+/** Masks a layer with a field of an earlier layer, looked up by `id`. */
+export interface BackgroundLayerMask {
+  /** `id` of an earlier layer. Give it `opacity: 0` to use it only as a mask. */
+  layer: string;
+  /**
+   * `"alpha"`: the layer's stop alpha times its geometry mask, before
+   * opacity. `"progress"`: its gradient progress `t`, 0 outside its
+   * geometry. Default: "alpha".
+   */
+  source?: BackgroundMaskSource;
+  /**
+   * How the value combines with the mask so far: `"multiply"` scales it,
+   * `"intersect"` keeps the minimum, `"subtract"` removes the value.
+   * Default: "multiply".
+   */
+  operation?: BackgroundMaskOperation;
+  /** Use one minus the value. Default: false. */
+  invert?: boolean;
+}
+
 export interface BackgroundLayerBase {
   id?: string;
   opacity?: number;
   blendMode?: BackgroundBlendMode;
+  /** Overrides `BackgroundArgs.compositeSpace` for this layer. */
+  compositeSpace?: BackgroundCompositeSpace;
   colorSpace?: BackgroundColorSpace;
+  /** Hue path between stops for polar color spaces. Default: "shorter". */
+  hueInterpolation?: BackgroundHueInterpolation;
+  /** Out-of-gamut handling for this layer's stop colors. Default: "clip". */
+  gamutMapping?: BackgroundGamutMapping;
+  /** Stop alpha interpolation. Default: "premultiplied". */
+  alphaInterpolation?: BackgroundAlphaInterpolation;
   colors?: BackgroundGradientColors;
   stops?: BackgroundColorStop[];
   midpoint?: number;
   shadow?: BackgroundShadow;
   grain?: BackgroundGrain;
+  /** Moves the layer's geometry; grain stays in screen space. */
+  transform?: BackgroundTransform;
+  /** Distorts the layer's geometry; applied in screen space before `transform`. */
+  warp?: BackgroundWarp;
+  /** Applied in order after the layer's own geometry mask. */
+  masks?: BackgroundLayerMask[];
+  /**
+   * Clip to the layer below: only show the layer where the nearest earlier
+   * unclipped layer in the same group is visible, like a clipping mask.
+   */
+  clip?: boolean;
 }
 
 export interface LinearGradientLayer extends BackgroundLayerBase {
@@ -52,6 +226,8 @@ export interface LinearGradientLayer extends BackgroundLayerBase {
   endX?: number;
   endY?: number;
   easing?: number;
+  /** Behavior outside the stop range. Default: "pad". */
+  spread?: BackgroundSpreadMethod;
 }
 
 export interface RadialGradientLayer extends BackgroundLayerBase {
@@ -68,6 +244,15 @@ export interface RadialGradientLayer extends BackgroundLayerBase {
    *  Values > 2 produce C∞-smooth rectangular vignettes without the
    *  diagonal seam artifacts of a true rectangular SDF. */
   power?: number;
+  /** Focal point (SVG `fx`/`fy`, canvas `x0`/`y0`). Setting either turns the
+   *  layer into a two-point conical gradient from the focal circle out to
+   *  the ellipse. Default: the center. */
+  focalX?: number;
+  focalY?: number;
+  /** Focal circle radius as a fraction of the ellipse radii (SVG `fr`). Default: 0. */
+  focalRadius?: number;
+  /** Behavior outside the stop range. Default: "pad". */
+  spread?: BackgroundSpreadMethod;
 }
 
 export interface BoxGradientLayer extends BackgroundLayerBase {
@@ -76,18 +261,271 @@ export interface BoxGradientLayer extends BackgroundLayerBase {
   y?: number;
   width?: number;
   height?: number;
+  /** One radius, or per corner like CSS `border-radius`: top-left, top-right,
+   *  bottom-right, bottom-left. Overlapping radii shrink together as in CSS. */
+  radius?: number | [number, number, number, number];
+  /** Degrees clockwise around the box center. Default: 0. */
+  rotation?: number;
+  spread?: number;
+  blur?: number;
+  inset?: boolean;
+  offsetX?: number;
+  offsetY?: number;
+}
+
+/**
+ * Sweep gradient around a center point, like CSS `conic-gradient`. Angles are
+ * in degrees, clockwise from 12 o'clock.
+ */
+export interface ConicGradientLayer extends BackgroundLayerBase {
+  type: "conic";
+  centerX?: number;
+  centerY?: number;
+  /** Angle where t = 0 (CSS `from <angle>`). Default: 0. */
+  startAngle?: number;
+  /** Degrees swept from `startAngle` to t = 1. Default: 360. */
+  sweep?: number;
+  /** Behavior outside the stop range; "repeat" tiles a partial sweep. Default: "pad". */
+  spread?: BackgroundSpreadMethod;
+}
+
+/** Offset from a mesh control point, in design pixels. */
+export interface MeshHandle {
+  x: number;
+  y: number;
+}
+
+export interface MeshGradientPoint {
+  x: number;
+  y: number;
+  color: string;
+  alpha?: number;
+  /** Tangent handle toward the next point in the row; mirrored toward the
+   *  previous one. Default: a third of the way to each neighbor (straight edge). */
+  rowHandle?: MeshHandle;
+  /** Tangent handle toward the next point in the column, mirrored likewise. */
+  columnHandle?: MeshHandle;
+}
+
+/**
+ * Grid of control points joined by cubic edges, filled as bicubic Coons
+ * patches. Colors blend bilinearly across each patch in `colorSpace`;
+ * `colors`, `stops` and `midpoint` are ignored. Shadow progress runs from the
+ * first row (t = 0) to the last (t = 1).
+ */
+export interface MeshGradientLayer extends BackgroundLayerBase {
+  type: "mesh";
+  /** Rows of control points; at least 2 × 2, every row the same length. */
+  points: MeshGradientPoint[][];
+}
+
+export interface FreeformGradientPoint {
+  x: number;
+  y: number;
+  color: string;
+  alpha?: number;
+  /** Reach of the point in design pixels: scales its inverse-distance weight,
+   *  or is the Gaussian's standard deviation. Default: a quarter of the canvas diagonal. */
+  radius?: number;
+}
+
+/**
+ * Scattered color points blended across the whole canvas in Oklab, like
+ * Illustrator's freeform gradients. `colors`, `stops`, `midpoint`,
+ * `colorSpace` and `hueInterpolation` are ignored. Shadow progress is the
+ * distance to the nearest point relative to its radius, reaching 1 at the
+ * radius.
+ */
+export interface FreeformGradientLayer extends BackgroundLayerBase {
+  type: "freeform";
+  /** At least one point. */
+  points: FreeformGradientPoint[];
+  /** Default: "inverse-distance". */
+  weighting?: BackgroundFreeformWeighting;
+  /** Inverse-distance exponent; higher values keep colors closer to their points. Default: 2. */
+  power?: number;
+}
+
+/**
+ * Smooth procedural field for clouds and auroras: `t` comes from seeded
+ * simplex fBm, remapped from [-1, 1] to [0, 1], and feeds the stops like any
+ * other gradient. Stretch it with `transform` for streaks.
+ */
+export interface NoiseGradientLayer extends BackgroundLayerBase {
+  type: "noise";
+  /** Size of the coarsest features in design pixels. Default: half the larger canvas side. */
+  scale?: number;
+  /** Noise layers summed, 1–8. Default: 4. */
+  octaves?: number;
+  /** Frequency multiplier from one octave to the next. Default: 2. */
+  lacunarity?: number;
+  /** Amplitude multiplier from one octave to the next. Default: 0.5. */
+  gain?: number;
+  /** Default: 0. */
+  seed?: number;
+}
+
+/** Outline of a shape layer: a regular polygon, a star, or SVG path data. */
+export type BackgroundShapeKind = "polygon" | "star" | "path";
+
+/**
+ * Soft inset or outer shadow around an arbitrary outline, with the same erf
+ * blur, `spread` and `inset` semantics as box layers.
+ */
+export interface ShapeGradientLayer extends BackgroundLayerBase {
+  type: "shape";
+  shape: BackgroundShapeKind;
+  /** Polygon and star center. Default: the canvas center. */
+  centerX?: number;
+  centerY?: number;
+  /** Polygon and star circumradius. Default: half the smaller canvas side. */
   radius?: number;
+  /** Polygon sides (default 6) or star points (default 5). */
+  sides?: number;
+  /** Star inner radius as a fraction of `radius`. Default: 0.5. */
+  innerRadius?: number;
+  /** Degrees clockwise; 0 puts a vertex at 12 o'clock. Default: 0. */
+  rotation?: number;
+  /** SVG path data in design pixels, for `shape: "path"`. Supports M, L, H, V, C, Q and Z;
+   *  curves are flattened and filled with the nonzero rule. */
+  path?: string;
   spread?: number;
   blur?: number;
+  /** true = shadow inside the outline (default). */
   inset?: boolean;
   offsetX?: number;
   offsetY?: number;
 }
 
+/** One circle or ellipse of a blob layer, in design pixels. */
+export interface BlobGradientCircle {
+  x: number;
+  y: number;
+  radiusX: number;
+  /** Default: `radiusX`, a circle. */
+  radiusY?: number;
+}
+
+/**
+ * Circles and ellipses merged into one outline by a smooth-min union of their
+ * distance fields, shaded like a shape layer. Animating the circles gives
+ * "lava lamp" blobs without seams between them.
+ */
+export interface BlobGradientLayer extends BackgroundLayerBase {
+  type: "blob";
+  blobs: BlobGradientCircle[];
+  /** Smooth-min blend distance in design pixels; 0 is a hard union. Default: 40. */
+  k?: number;
+  spread?: number;
+  blur?: number;
+  /** true = shadow inside the blobs (default). */
+  inset?: boolean;
+  offsetX?: number;
+  offsetY?: number;
+}
+
+/**
+ * Ribbon along a path: progress is the arc length to the nearest point of the
+ * path, normalized to [0, 1], and the layer fades out with distance from it.
+ */
+export interface StrokeGradientLayer extends BackgroundLayerBase {
+  type: "stroke";
+  /** SVG path data in design pixels, with the commands shape layers support.
+   *  Subpaths stay open unless closed with Z. */
+  path: string;
+  /** Width of the fully opaque ribbon. Default: 40. */
+  width?: number;
+  /** erf falloff beyond the ribbon's edge, like box blur. Default: 0. */
+  blur?: number;
+  offsetX?: number;
+  offsetY?: number;
+}
+
+/** Repeating motif of a pattern layer. */
+export type BackgroundPatternKind = "dots" | "grid" | "stripes" | "checker";
+
+/** Radial falloff of a pattern layer, with the radial layer's geometry options. */
+export type BackgroundPatternFade = Pick<
+  RadialGradientLayer,
+  "centerX" | "centerY" | "radiusX" | "radiusY" | "innerRadius" | "outerRadius" | "falloff" | "power"
+>;
+
+/**
+ * Dot grid, graph paper, stripes or checkerboard, anti-aliased analytically.
+ * Coverage is the layer mask; the color comes from the stops at the fade's
+ * progress, or from the first stop without a fade.
+ */
+export interface PatternGradientLayer extends BackgroundLayerBase {
+  type: "pattern";
+  pattern: BackgroundPatternKind;
+  /** Distance between dots, lines or stripes; checker cell size. Default: 24. */
+  spacing?: number;
+  /** Dot diameter (default 2), line width (default 1) or stripe width
+   *  (default half the spacing). Checkers ignore it. */
+  size?: number;
+  /** Fades the pattern out from the center, reaching 0 at the fade's edge. */
+  fade?: BackgroundPatternFade;
+  /** Pattern origin: a dot or line intersection. Default: 0. */
+  offsetX?: number;
+  offsetY?: number;
+}
+
+/** 8-bit sRGB pixels, row by row. `ImageData` fits as is. */
+export interface BackgroundImageSource {
+  width: number;
+  height: number;
+  /** RGBA bytes, straight alpha; `width * height * 4` of them. */
+  data: Uint8ClampedArray;
+}
+
+/** How an image is scaled onto the canvas, centered, as in CSS `object-fit`. */
+export type BackgroundImageFit = "cover" | "contain";
+
+export interface BackgroundImage {
+  source: BackgroundImageSource;
+  /** Default: "cover". */
+  fit?: BackgroundImageFit;
+  /** Gaussian standard deviation in source image pixels, applied in linear light. Default: 0. */
+  blur?: number;
+}
+
+/**
+ * Photo or texture, decoded to linear light. Stops are ignored; shadow
+ * progress is 0 across the image, so `shadow.startIntensity` applies to all of it.
+ */
+export interface ImageLayer extends BackgroundLayerBase, BackgroundImage {
+  type: "image";
+}
+
 export type BackgroundLayer =
   | LinearGradientLayer
   | RadialGradientLayer
-  | BoxGradientLayer;
+  | BoxGradientLayer
+  | ConicGradientLayer
+  | MeshGradientLayer
+  | FreeformGradientLayer
+  | NoiseGradientLayer
+  | ShapeGradientLayer
+  | BlobGradientLayer
+  | StrokeGradientLayer
+  | PatternGradientLayer
+  | ImageLayer;
+
+/**
+ * Layers composited into their own transparent buffer, which is then
+ * composited as one unit with the group's opacity, blend mode and mask,
+ * like a Figma or Photoshop group. Groups nest.
+ */
+export interface GroupLayer
+  extends Pick<BackgroundLayerBase, "id" | "opacity" | "blendMode" | "compositeSpace"> {
+  type: "group";
+  /** Children in compositing order; those without a `compositeSpace` use the group's. */
+  layers: BackgroundLayerNode[];
+  /** Layer whose coverage (alpha × opacity × geometry) masks the group; it is not drawn. */
+  mask?: BackgroundLayer;
+}
+
+export type BackgroundLayerNode = BackgroundLayer | GroupLayer;
 
 export interface BackgroundDither {
   mode?: BackgroundDitherMode;
@@ -97,10 +535,32 @@ export interface BackgroundDither {
 export interface BackgroundArgs {
   preset?: BackgroundPreset;
   baseColor?: string;
-  layers?: BackgroundLayer[];
+  /** Drawn over `baseColor`, which shows through transparent or letterboxed areas. */
+  baseImage?: BackgroundImage;
+  layers?: BackgroundLayerNode[];
+  /** Where layers blend; see {@link BackgroundCompositeSpace}. Default: "linear". */
+  compositeSpace?: BackgroundCompositeSpace;
   grain?: BackgroundGrain;
   dither?: BackgroundDither;
   opaque?: boolean;
+  /** Output encoding and gamut. Default: "srgb". */
+  outputColorSpace?: BackgroundOutputColorSpace;
+}
+
+export interface BackgroundRenderDiagnostics {
+  totalPixels: number;
+  /** Pixels where at least one layer sampled a color outside the output gamut. */
+  outOfGamutPixels: number;
+  /**
+   * Out-of-gamut samples per layer, in layer order. Groups are flattened
+   * depth-first, with a group's mask layer after its children.
+   */
+  layerOutOfGamutPixels: number[];
+}
+
+export interface BackgroundRenderOptions {
+  /** Called once after rendering with per-render statistics. */
+  onDiagnostics?: (diagnostics: BackgroundRenderDiagnostics) => void;
 }
 
 export interface LinearRgba {
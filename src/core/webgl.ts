@@ -1,22 +1,72 @@
+import {
+  getHueComponentIndex,
+  getLuminanceWeights,
+  LINEAR_P3_TO_LINEAR_SRGB,
+  LINEAR_SRGB_TO_LINEAR_P3,
+  type ColorTriplet,
+  type Matrix3,
+} from "./color";
 import { getBlueNoiseTexture64 } from "./dither";
 import {
   resolveBackgroundArgs,
   type PreparedLayer,
+  type PreparedLayerMask,
   type ResolvedBackgroundArgs,
 } from "./engine";
+import {
+  DEFAULT_BLOB_K,
+  DEFAULT_PATTERN_SPACING,
+  DEFAULT_STROKE_WIDTH,
+  FREEFORM_MIN_DISTANCE,
+  resolveFreeformRadius,
+  resolveLayerTransform,
+  resolvePatternSize,
+  resolveRadialFocus,
+} from "./math";
+import { resolveImagePlacement } from "./image";
+import { MESH_NEWTON_STEPS, MESH_TOLERANCE, type MeshCurve } from "./mesh";
+import { MAX_NOISE_OCTAVES, resolveNoiseOctaves, resolveNoiseOffset } from "./noise";
+import { buildShapeSegments, resolveShapeSegments, resolveStrokeSegments } from "./shape";
 import type {
   BackgroundArgs,
   BackgroundBlendMode,
   BackgroundColorSpace,
+  BackgroundCompositeSpace,
+  BackgroundHueInterpolation,
+  BackgroundMaskOperation,
+  BackgroundOutputColorSpace,
+  BackgroundPatternKind,
+  BackgroundShadowMode,
+  BackgroundSpreadMethod,
+  RadialGradientLayer,
 } from "./types";
 
 const EPSILON = 1e-6;
 const MAX_LAYERS = 6;
 const MAX_STOPS = 4;
+const MAX_MESH_PATCHES = 64;
+const MESH_TEXELS_PER_PATCH = 12;
+const MAX_FREEFORM_POINTS = 16;
+const MAX_SHAPE_SEGMENTS = 256;
+const MAX_BLOBS = 32;
+const MAX_IMAGES = 2;
+const MAX_GROUPS = 4;
+// Two groups share each uGroup vector.
+const MAX_GROUP_VECTORS = MAX_GROUPS / 2;
+const MAX_GROUP_DEPTH = 2;
+const MAX_LAYER_MASKS = 2;
 
 export const BACKGROUND_WEBGL_LIMITS = {
   maxLayers: MAX_LAYERS,
   maxStopsPerLayer: MAX_STOPS,
+  maxMeshPatchesPerLayer: MAX_MESH_PATCHES,
+  maxFreeformPoints: MAX_FREEFORM_POINTS,
+  maxShapeSegmentsPerLayer: MAX_SHAPE_SEGMENTS,
+  maxBlobsPerLayer: MAX_BLOBS,
+  maxImages: MAX_IMAGES,
+  maxGroups: MAX_GROUPS,
+  maxGroupDepth: MAX_GROUP_DEPTH,
+  maxMasksPerLayer: MAX_LAYER_MASKS, // Including the clip
 } as const;
 
 export interface BackgroundWebGLSupportResult {
@@ -34,18 +84,30 @@ void main() {
 }
 `;
 
-const FRAGMENT_SHADER_SOURCE = `
+/** Exported for the shader parity tests, which run it transpiled to JavaScript. */
+export const FRAGMENT_SHADER_SOURCE = `
 precision highp float;
 
 varying vec2 vUv;
 
 #define MAX_LAYERS ${MAX_LAYERS}
 #define MAX_STOPS ${MAX_STOPS}
+#define MAX_MESH_PATCHES ${MAX_MESH_PATCHES}
+#define MAX_FREEFORM_POINTS ${MAX_FREEFORM_POINTS}
+#define MAX_NOISE_OCTAVES ${MAX_NOISE_OCTAVES}
+#define MAX_SHAPE_SEGMENTS ${MAX_SHAPE_SEGMENTS}
+#define MAX_BLOBS ${MAX_BLOBS}
+#define MAX_GROUPS ${MAX_GROUPS}
+#define MAX_GROUP_VECTORS ${MAX_GROUP_VECTORS}
+#define MAX_GROUP_DEPTH ${MAX_GROUP_DEPTH}
+#define MAX_LAYER_MASKS ${MAX_LAYER_MASKS}
 const float EPS = 0.000001;
 
 uniform vec2 uDesignSize;
 uniform vec2 uPhysicalSize;
 uniform vec4 uBaseColor;
+// Composite space of the base image.
+uniform float uCompositeSpace;
 uniform float uOpaque;
 uniform int uLayerCount;
 uniform float uDitherMode;
@@ -56,32 +118,94 @@ uniform float uGlobalGrainSeed;
 uniform float uGlobalGrainMono;
 uniform sampler2D uBlueNoise;
 uniform float uHasBlueNoise;
+uniform mat3 uSrgbToOutput;
+uniform mat3 uOutputToSrgb;
+uniform vec3 uLuminanceWeights;
 
 uniform vec4 uLayerMeta1[MAX_LAYERS];
 uniform vec4 uLayerMeta2[MAX_LAYERS];
-uniform vec4 uLayerLinear1[MAX_LAYERS];
-uniform vec4 uLayerLinear2[MAX_LAYERS];
-uniform vec4 uLayerLinear3[MAX_LAYERS];
-uniform vec4 uLayerRadial1[MAX_LAYERS];
-uniform vec4 uLayerRadial2[MAX_LAYERS];
-uniform vec4 uLayerBox1[MAX_LAYERS];
-uniform vec4 uLayerBox2[MAX_LAYERS];
+uniform vec4 uLayerMeta3[MAX_LAYERS];
+// Shadow target color in linear output RGB, and mode × 3 + space.
+uniform vec4 uLayerShadow[MAX_LAYERS];
+// Type-specific parameters, shared by all layer types to stay within the
+// uniform budget; packLayerUniforms documents each type's layout.
+uniform vec4 uLayerParams1[MAX_LAYERS];
+uniform vec4 uLayerParams2[MAX_LAYERS];
+uniform vec4 uLayerParams3[MAX_LAYERS];
+uniform vec4 uLayerParams4[MAX_LAYERS];
+// Inverse transform: the linear part, then (translation, 1 when transformed,
+// warp octaves). Warp: amplitude, frequency, seed offset.
+uniform vec4 uLayerTransform1[MAX_LAYERS];
+uniform vec4 uLayerTransform2[MAX_LAYERS];
+uniform vec4 uLayerWarp[MAX_LAYERS];
 uniform vec4 uLayerGrain[MAX_LAYERS];
+// x: composite space code, y: groups to close and z: groups to open
+// before the layer, w: 1 when the layer masks the innermost open group.
+uniform vec4 uLayerComposite[MAX_LAYERS];
+// Groups in the order they open, two per vector as (opacity, code) pairs with
+// code (blend mode × 3 + composite space) × 2 + has mask.
+uniform vec4 uGroup[MAX_GROUP_VECTORS];
+// Masks from earlier layers, both slots as (source layer, code) pairs: source
+// -1 when unused, code (field × 3 + operation) × 2 + invert with fields 0
+// alpha, 1 progress, 2 coverage and operations 0 multiply, 1 intersect,
+// 2 subtract.
+uniform vec4 uLayerMasks[MAX_LAYERS];
+
+uniform sampler2D uMeshData;
+uniform vec2 uMeshDataSize;
+
+// Shape outlines, stroke paths and blob circles, one texture row per layer and
+// one segment or circle per texel.
+uniform sampler2D uShapeData;
+uniform vec2 uShapeDataSize;
+
+// Images in premultiplied linear light; the base image takes slot 0.
+uniform sampler2D uImage0;
+uniform sampler2D uImage1;
+uniform vec2 uImage0Size;
+uniform vec2 uImage1Size;
+// Base image placement: x, y, scale, slot (negative without a base image).
+uniform vec4 uBaseImage;
+
+// Freeform points of all layers; uLayerParams1 holds each layer's slice.
+uniform vec4 uFreeformPoint[MAX_FREEFORM_POINTS];
+uniform vec4 uFreeformColor[MAX_FREEFORM_POINTS];
 
 uniform vec4 uStopPos[MAX_LAYERS];
 uniform vec4 uStopColor0[MAX_LAYERS];
 uniform vec4 uStopColor1[MAX_LAYERS];
 uniform vec4 uStopColor2[MAX_LAYERS];
 uniform vec4 uStopColor3[MAX_LAYERS];
-uniform vec4 uStopLab0[MAX_LAYERS];
-uniform vec4 uStopLab1[MAX_LAYERS];
-uniform vec4 uStopLab2[MAX_LAYERS];
-uniform vec4 uStopLab3[MAX_LAYERS];
+uniform vec4 uStopCoords0[MAX_LAYERS];
+uniform vec4 uStopCoords1[MAX_LAYERS];
+uniform vec4 uStopCoords2[MAX_LAYERS];
+uniform vec4 uStopCoords3[MAX_LAYERS];
 
 float clamp01(float value) {
   return clamp(value, 0.0, 1.0);
 }
 
+// Mirrors limitProgress: pad clamps and applies the exponent, repeat/reflect
+// stay unbounded for applySpreadMethod.
+float shapeProgress(float rawT, float exponent, float spreadCode) {
+  return spreadCode < 0.5 ? pow(clamp01(rawT), exponent) : rawT;
+}
+
+// Mirrors applySpreadMethod: 0 pad, 1 repeat, 2 reflect.
+float applySpreadMethod(float t, float spreadCode, float first, float last, float exponent) {
+  float period = last - first;
+  if (spreadCode < 0.5 || period < EPS) {
+    return t;
+  }
+
+  float offset = t - first;
+  float cycle = spreadCode < 1.5
+    ? offset - period * floor(offset / period)
+    : offset - 2.0 * period * floor(offset / (2.0 * period));
+  float folded = cycle > period ? 2.0 * period - cycle : cycle;
+  return first + period * pow(clamp01(folded / period), exponent);
+}
+
 // Abramowitz & Stegun approximation 7.1.26 — max error < 1.5e-7.
 float erfApprox(float x) {
   float ax = abs(x);
@@ -133,31 +257,289 @@ vec4 layerStopColorLinear(int layerIndex, int stopIndex) {
   return uStopColor3[layerIndex];
 }
 
-vec4 layerStopColorLab(int layerIndex, int stopIndex) {
-  if (stopIndex == 0) return uStopLab0[layerIndex];
-  if (stopIndex == 1) return uStopLab1[layerIndex];
-  if (stopIndex == 2) return uStopLab2[layerIndex];
-  return uStopLab3[layerIndex];
+vec4 layerStopCoords(int layerIndex, int stopIndex) {
+  if (stopIndex == 0) return uStopCoords0[layerIndex];
+  if (stopIndex == 1) return uStopCoords1[layerIndex];
+  if (stopIndex == 2) return uStopCoords2[layerIndex];
+  return uStopCoords3[layerIndex];
 }
 
-vec4 oklabToLinear(vec4 labAlpha) {
-  float lPrime = labAlpha.x + 0.3963377774 * labAlpha.y + 0.2158037573 * labAlpha.z;
-  float mPrime = labAlpha.x - 0.1055613458 * labAlpha.y - 0.0638541728 * labAlpha.z;
-  float sPrime = labAlpha.x - 0.0894841775 * labAlpha.y - 1.2914855480 * labAlpha.z;
+vec3 oklabToLinearSrgb(vec3 lab) {
+  float lPrime = lab.x + 0.3963377774 * lab.y + 0.2158037573 * lab.z;
+  float mPrime = lab.x - 0.1055613458 * lab.y - 0.0638541728 * lab.z;
+  float sPrime = lab.x - 0.0894841775 * lab.y - 1.2914855480 * lab.z;
 
   float l3 = lPrime * lPrime * lPrime;
   float m3 = mPrime * mPrime * mPrime;
   float s3 = sPrime * sPrime * sPrime;
 
-  vec4 linear = vec4(
+  return vec3(
     4.0767416621 * l3 - 3.3077115913 * m3 + 0.2309699292 * s3,
     -1.2684380046 * l3 + 2.6097574011 * m3 - 0.3413193965 * s3,
-    -0.0041960863 * l3 - 0.7034186147 * m3 + 1.7076147010 * s3,
-    labAlpha.w
+    -0.0041960863 * l3 - 0.7034186147 * m3 + 1.7076147010 * s3
+  );
+}
+
+// Oklab → linear output RGB without clamping; out-of-gamut channels leave [0, 1].
+vec4 oklabToLinearRaw(vec4 labAlpha) {
+  return vec4(uSrgbToOutput * oklabToLinearSrgb(labAlpha.xyz), labAlpha.w);
+}
+
+vec3 linearToOklab(vec3 outputColor) {
+  vec3 color = uOutputToSrgb * outputColor;
+  float l = 0.4122214708 * color.r + 0.5363325363 * color.g + 0.0514459929 * color.b;
+  float m = 0.2119034982 * color.r + 0.6806995451 * color.g + 0.1073969566 * color.b;
+  float s = 0.0883024619 * color.r + 0.2817188376 * color.g + 0.6299787005 * color.b;
+
+  float lRoot = pow(max(0.0, l), 1.0 / 3.0);
+  float mRoot = pow(max(0.0, m), 1.0 / 3.0);
+  float sRoot = pow(max(0.0, s), 1.0 / 3.0);
+
+  return vec3(
+    0.2104542553 * lRoot + 0.7936177850 * mRoot - 0.0040720468 * sRoot,
+    1.9779984951 * lRoot - 2.4285922050 * mRoot + 0.4505937099 * sRoot,
+    0.0259040371 * lRoot + 0.7827717662 * mRoot - 0.8086757660 * sRoot
+  );
+}
+
+// CSS Color 4 gamut mapping, mirroring gamutMapLinearRgba on the CPU.
+const float GAMUT_TOLERANCE = 0.00001;
+const float GAMUT_JND = 0.02;
+const float GAMUT_EPSILON = 0.0001;
+
+bool inOutputGamut(vec3 color) {
+  return all(greaterThanEqual(color, vec3(-GAMUT_TOLERANCE))) &&
+    all(lessThanEqual(color, vec3(1.0 + GAMUT_TOLERANCE)));
+}
+
+vec4 gamutMapLinear(vec4 color) {
+  if (inOutputGamut(color.rgb)) {
+    return clampLinearColor(color);
+  }
+
+  vec3 lab = linearToOklab(color.rgb);
+  float alpha = clamp01(color.a);
+  if (lab.x >= 1.0) {
+    return vec4(1.0, 1.0, 1.0, alpha);
+  }
+  if (lab.x <= 0.0) {
+    return vec4(0.0, 0.0, 0.0, alpha);
+  }
+
+  vec3 clipped = clamp(color.rgb, 0.0, 1.0);
+  if (length(linearToOklab(clipped) - lab) < GAMUT_JND) {
+    return vec4(clipped, alpha);
+  }
+
+  float chroma = length(lab.yz);
+  vec2 hueDir = lab.yz / chroma;
+  float minChroma = 0.0;
+  float maxChroma = chroma;
+  bool minInGamut = true;
+
+  // Binary search on chroma; 16 halvings resolve chroma well below GAMUT_EPSILON.
+  for (int i = 0; i < 16; i++) {
+    if (maxChroma - minChroma <= GAMUT_EPSILON) {
+      break;
+    }
+
+    float candidateChroma = 0.5 * (minChroma + maxChroma);
+    vec3 candidate = vec3(lab.x, hueDir * candidateChroma);
+    vec3 linear = oklabToLinearRaw(vec4(candidate, 1.0)).rgb;
+
+    if (minInGamut && inOutputGamut(linear)) {
+      minChroma = candidateChroma;
+      continue;
+    }
+
+    clipped = clamp(linear, 0.0, 1.0);
+    float error = length(linearToOklab(clipped) - candidate);
+
+    if (error < GAMUT_JND) {
+      if (GAMUT_JND - error < GAMUT_EPSILON) {
+        break;
+      }
+      minInGamut = false;
+      minChroma = candidateChroma;
+    } else {
+      maxChroma = candidateChroma;
+    }
+  }
+
+  return vec4(clipped, alpha);
+}
+
+// Gamut codes: 0 clip, 1 css.
+vec4 resolveGamut(vec4 color, float gamutMode) {
+  if (gamutMode < 0.5) {
+    return clampLinearColor(color);
+  }
+  return gamutMapLinear(color);
+}
+
+// CSS Color 4 hue fixups. Codes: 0 shorter, 1 longer, 2 increasing, 3 decreasing.
+vec2 fixupHues(float h1, float h2, float hueMethod) {
+  float delta = h2 - h1;
+  if (hueMethod < 0.5) {
+    if (delta > 180.0) {
+      h1 += 360.0;
+    } else if (delta < -180.0) {
+      h2 += 360.0;
+    }
+  } else if (hueMethod < 1.5) {
+    if (delta > 0.0 && delta < 180.0) {
+      h1 += 360.0;
+    } else if (delta > -180.0 && delta <= 0.0) {
+      h2 += 360.0;
+    }
+  } else if (hueMethod < 2.5) {
+    if (delta < 0.0) {
+      h2 += 360.0;
+    }
+  } else if (delta > 0.0) {
+    h1 += 360.0;
+  }
+  return vec2(h1, h2);
+}
+
+// Polar coordinates carry the hue in z; a negative hue is powerless and
+// borrows the other endpoint's hue, like interpolateHue on the CPU.
+vec4 mixPolar(vec4 start, vec4 end, float t, float hueMethod) {
+  float startHue = start.z >= 0.0 ? start.z : max(end.z, 0.0);
+  float endHue = end.z >= 0.0 ? end.z : startHue;
+  vec2 hues = fixupHues(startHue, endHue, hueMethod);
+
+  vec4 mixed = mix(start, end, t);
+  mixed.z = mod(mix(hues.x, hues.y, t), 360.0);
+  return mixed;
+}
+
+const mat3 XYZ_TO_LINEAR_SRGB = mat3(
+  3.2409699419, -0.9692436363, 0.0556300797,
+  -1.5373831776, 1.8759675015, -0.2039769589,
+  -0.4986107603, 0.0415550574, 1.0569715142
+);
+
+// XYZ_TO_LINEAR_SRGB * XYZ_D50_TO_D65 (Bradford).
+const mat3 XYZ_D50_TO_LINEAR_SRGB = mat3(
+  3.1341358529, -0.9787954766, 0.0719553926,
+  -1.6173859980, 1.9162543774, -0.2289767598,
+  -0.4906622179, 0.0334428734, 1.4053860351
+);
+
+const vec3 D50_WHITE = vec3(0.9642956764, 1.0, 0.8251046025);
+const float LAB_KAPPA = 903.2962962963;
+const float LAB_EPSILON = 0.0088564517;
+
+float srgbChannelToLinear(float value) {
+  float magnitude = abs(value);
+  float linear = magnitude <= 0.04045
+    ? magnitude / 12.92
+    : pow((magnitude + 0.055) / 1.055, 2.4);
+  return sign(value) * linear;
+}
+
+vec3 srgbToLinear(vec3 color) {
+  return vec3(
+    srgbChannelToLinear(color.r),
+    srgbChannelToLinear(color.g),
+    srgbChannelToLinear(color.b)
+  );
+}
+
+float linearChannelToSrgb(float linearChannel) {
+  float c = clamp01(linearChannel);
+  return c <= 0.0031308 ? 12.92 * c : 1.055 * pow(c, 1.0 / 2.4) - 0.055;
+}
+
+vec3 linearToSrgb(vec3 color) {
+  return vec3(
+    linearChannelToSrgb(color.r),
+    linearChannelToSrgb(color.g),
+    linearChannelToSrgb(color.b)
   );
-  return clampLinearColor(linear);
 }
 
+vec3 hslToSrgb(float hue, float saturation, float lightness) {
+  float amount = saturation * min(lightness, 1.0 - lightness);
+  vec3 k = mod(vec3(0.0, 8.0, 4.0) + hue / 30.0, 12.0);
+  return lightness - amount * clamp(min(k - 3.0, 9.0 - k), -1.0, 1.0);
+}
+
+vec3 hwbToSrgb(float hue, float whiteness, float blackness) {
+  float total = whiteness + blackness;
+  if (total >= 1.0) {
+    return vec3(whiteness / total);
+  }
+  return hslToSrgb(hue, 1.0, 0.5) * (1.0 - total) + whiteness;
+}
+
+vec3 labToXyzD50(vec3 lab) {
+  float f1 = (lab.x + 16.0) / 116.0;
+  float f0 = lab.y / 500.0 + f1;
+  float f2 = f1 - lab.z / 200.0;
+
+  float x = f0 * f0 * f0 > LAB_EPSILON ? f0 * f0 * f0 : (116.0 * f0 - 16.0) / LAB_KAPPA;
+  float y = lab.x > LAB_KAPPA * LAB_EPSILON ? f1 * f1 * f1 : lab.x / LAB_KAPPA;
+  float z = f2 * f2 * f2 > LAB_EPSILON ? f2 * f2 * f2 : (116.0 * f2 - 16.0) / LAB_KAPPA;
+
+  return vec3(x, y, z) * D50_WHITE;
+}
+
+vec3 polarToRectangular(vec3 lch) {
+  float hue = radians(lch.z);
+  return vec3(lch.x, lch.y * cos(hue), lch.y * sin(hue));
+}
+
+// Color space codes: 0 linear-srgb, 1 oklab, 2 oklch, 3 srgb, 4 lab, 5 lch,
+// 6 xyz, 7 hsl, 8 hwb. Polar spaces (2, 5, 7, 8) are packed hue-last.
+bool isPolarSpace(int colorSpaceCode) {
+  return colorSpaceCode == 2 || colorSpaceCode == 5 || colorSpaceCode >= 7;
+}
+
+vec3 coordsToLinearSrgb(vec3 coords, int colorSpaceCode) {
+  vec3 polar = vec3(coords.xy, max(coords.z, 0.0));
+  if (colorSpaceCode == 1) return oklabToLinearSrgb(coords);
+  if (colorSpaceCode == 2) return oklabToLinearSrgb(polarToRectangular(polar));
+  if (colorSpaceCode == 3) return srgbToLinear(coords);
+  if (colorSpaceCode == 4) return XYZ_D50_TO_LINEAR_SRGB * labToXyzD50(coords);
+  if (colorSpaceCode == 5) {
+    return XYZ_D50_TO_LINEAR_SRGB * labToXyzD50(polarToRectangular(polar));
+  }
+  if (colorSpaceCode == 6) return XYZ_TO_LINEAR_SRGB * coords;
+  if (colorSpaceCode == 7) return srgbToLinear(hslToSrgb(polar.z, polar.x, polar.y));
+  if (colorSpaceCode == 8) return srgbToLinear(hwbToSrgb(polar.z, polar.x, polar.y));
+  return coords;
+}
+
+// Premultiplies every component except a polar hue, which is packed last.
+vec4 premultiplyCoords(vec4 coords, bool polar) {
+  return polar
+    ? vec4(coords.xy * coords.w, coords.zw)
+    : vec4(coords.xyz * coords.w, coords.w);
+}
+
+vec4 unpremultiplyCoords(vec4 coords, bool polar) {
+  if (coords.w <= 0.0) {
+    return coords;
+  }
+  return polar
+    ? vec4(coords.xy / coords.w, coords.zw)
+    : vec4(coords.xyz / coords.w, coords.w);
+}
+
+vec4 coordsToLinearOutput(vec4 coords, int colorSpaceCode) {
+  return vec4(uSrgbToOutput * coordsToLinearSrgb(coords.xyz, colorSpaceCode), coords.w);
+}
+
+vec4 layerStopColor(int layerIndex, int stopIndex, int colorSpaceCode) {
+  if (colorSpaceCode == 0) {
+    return layerStopColorLinear(layerIndex, stopIndex);
+  }
+  return coordsToLinearOutput(layerStopCoords(layerIndex, stopIndex), colorSpaceCode);
+}
+
+// Returns unclamped linear RGB; main() resolves the gamut per layer.
 vec4 sampleStops(int layerIndex, float t, int colorSpaceCode) {
   int stopCount = int(uLayerMeta2[layerIndex].w + 0.5);
   if (stopCount <= 0) {
@@ -165,31 +547,18 @@ vec4 sampleStops(int layerIndex, float t, int colorSpaceCode) {
   }
 
   if (stopCount == 1) {
-    vec4 color = layerStopColorLinear(layerIndex, 0);
-    if (colorSpaceCode == 1) {
-      color = oklabToLinear(layerStopColorLab(layerIndex, 0));
-    }
-    return color;
+    return layerStopColor(layerIndex, 0, colorSpaceCode);
   }
 
-  float tt = clamp01(t);
   float firstPosition = layerStopPosition(layerIndex, 0);
-  if (tt <= firstPosition) {
-    vec4 color = layerStopColorLinear(layerIndex, 0);
-    if (colorSpaceCode == 1) {
-      color = oklabToLinear(layerStopColorLab(layerIndex, 0));
-    }
-    return color;
+  if (t <= firstPosition) {
+    return layerStopColor(layerIndex, 0, colorSpaceCode);
   }
 
   int lastIndex = stopCount - 1;
   float lastPosition = layerStopPosition(layerIndex, lastIndex);
-  if (tt >= lastPosition) {
-    vec4 color = layerStopColorLinear(layerIndex, lastIndex);
-    if (colorSpaceCode == 1) {
-      color = oklabToLinear(layerStopColorLab(layerIndex, lastIndex));
-    }
-    return color;
+  if (t >= lastPosition) {
+    return layerStopColor(layerIndex, lastIndex, colorSpaceCode);
   }
 
   for (int stopIndex = 0; stopIndex < MAX_STOPS - 1; stopIndex++) {
@@ -199,48 +568,602 @@ vec4 sampleStops(int layerIndex, float t, int colorSpaceCode) {
 
     float startPosition = layerStopPosition(layerIndex, stopIndex);
     float endPosition = layerStopPosition(layerIndex, stopIndex + 1);
-    if (tt > endPosition) {
+    if (t > endPosition) {
       continue;
     }
 
     float span = max(EPS, endPosition - startPosition);
-    float segT = (tt - startPosition) / span;
+    float segT = (t - startPosition) / span;
+    bool premultiplied = uLayerMeta3[layerIndex].z > 0.5;
 
     if (colorSpaceCode == 0) {
       vec4 startColor = layerStopColorLinear(layerIndex, stopIndex);
       vec4 endColor = layerStopColorLinear(layerIndex, stopIndex + 1);
-      return mix(startColor, endColor, segT);
+      if (!premultiplied) {
+        return mix(startColor, endColor, segT);
+      }
+      return unpremultiplyCoords(
+        mix(premultiplyCoords(startColor, false), premultiplyCoords(endColor, false), segT),
+        false
+      );
+    }
+
+    bool polar = isPolarSpace(colorSpaceCode);
+    vec4 startCoords = layerStopCoords(layerIndex, stopIndex);
+    vec4 endCoords = layerStopCoords(layerIndex, stopIndex + 1);
+    if (premultiplied) {
+      startCoords = premultiplyCoords(startCoords, polar);
+      endCoords = premultiplyCoords(endCoords, polar);
+    }
+
+    vec4 mixed = polar
+      ? mixPolar(startCoords, endCoords, segT, uLayerMeta3[layerIndex].x)
+      : mix(startCoords, endCoords, segT);
+    if (premultiplied) {
+      mixed = unpremultiplyCoords(mixed, polar);
+    }
+
+    return coordsToLinearOutput(mixed, colorSpaceCode);
+  }
+
+  return layerStopColor(layerIndex, lastIndex, colorSpaceCode);
+}
+
+const float HARD_STOP_EPS = 0.000001;
+
+bool isRepeating(int layerIndex, int stopCount) {
+  float spreadCode = uLayerMeta3[layerIndex].w;
+  float period = layerStopPosition(layerIndex, stopCount - 1) - layerStopPosition(layerIndex, 0);
+  return spreadCode > 0.5 && spreadCode < 1.5 && period >= HARD_STOP_EPS;
+}
+
+// The easing or falloff that repeat and reflect apply within each period.
+float layerSpreadExponent(int layerIndex) {
+  float layerType = uLayerMeta1[layerIndex].x;
+  if (layerType < 0.5) {
+    return max(EPS, uLayerParams3[layerIndex].y);
+  }
+  if (layerType < 1.5) {
+    return max(EPS, uLayerParams2[layerIndex].z);
+  }
+  return 1.0;
+}
+
+// Mirrors the CPU's fold of progress into the stop range.
+float foldProgress(int layerIndex, int stopCount, float rawT) {
+  if (stopCount < 2) {
+    return rawT;
+  }
+  return applySpreadMethod(
+    rawT,
+    uLayerMeta3[layerIndex].w,
+    layerStopPosition(layerIndex, 0),
+    layerStopPosition(layerIndex, stopCount - 1),
+    layerSpreadExponent(layerIndex)
+  );
+}
+
+// Folded progress unwrapped again across repeat seams, for pixel differences.
+float unwrapProgress(int layerIndex, int stopCount, float rawT) {
+  float folded = foldProgress(layerIndex, stopCount, rawT);
+  if (!isRepeating(layerIndex, stopCount)) {
+    return folded;
+  }
+  float first = layerStopPosition(layerIndex, 0);
+  float period = layerStopPosition(layerIndex, stopCount - 1) - first;
+  return folded + period * floor((rawT - first) / period);
+}
+
+bool hasHardStops(int layerIndex) {
+  int stopCount = int(uLayerMeta2[layerIndex].w + 0.5);
+  if (stopCount < 2) {
+    return false;
+  }
+  if (isRepeating(layerIndex, stopCount)) {
+    return true;
+  }
+
+  for (int stopIndex = 0; stopIndex < MAX_STOPS - 1; stopIndex++) {
+    if (stopIndex >= stopCount - 1) {
+      break;
+    }
+    float gap = layerStopPosition(layerIndex, stopIndex + 1) - layerStopPosition(layerIndex, stopIndex);
+    if (gap < HARD_STOP_EPS) {
+      return true;
+    }
+  }
+  return false;
+}
+
+vec4 mixByCoverage(vec4 from, vec4 to, float coverage) {
+  vec4 mixed = mix(vec4(from.rgb * from.a, from.a), vec4(to.rgb * to.a, to.a), coverage);
+  return mixed.a > 0.0 ? vec4(mixed.rgb / mixed.a, mixed.a) : vec4(to.rgb, 0.0);
+}
+
+// Mirrors sampleStopsAntialiased on the CPU: footprint is the change in t
+// across one pixel, and the first hard stop within half of it is box-filtered.
+vec4 sampleStopsAntialiased(int layerIndex, float t, float footprint, int colorSpaceCode) {
+  vec4 color = sampleStops(layerIndex, t, colorSpaceCode);
+  int stopCount = int(uLayerMeta2[layerIndex].w + 0.5);
+  if (footprint <= 0.0 || stopCount < 2) {
+    return color;
+  }
+
+  bool repeating = isRepeating(layerIndex, stopCount);
+  float first = layerStopPosition(layerIndex, 0);
+  float period = layerStopPosition(layerIndex, stopCount - 1) - first;
+
+  bool found = false;
+  float edgePosition = 0.0;
+  float edgeDistance = 0.0;
+  vec4 before = color;
+  vec4 after = color;
+
+  for (int stopIndex = 0; stopIndex < MAX_STOPS - 1; stopIndex++) {
+    if (stopIndex >= stopCount - 1) {
+      break;
+    }
+
+    float position = layerStopPosition(layerIndex, stopIndex);
+    if (layerStopPosition(layerIndex, stopIndex + 1) - position >= HARD_STOP_EPS) {
+      continue;
+    }
+
+    if (found) {
+      // Coincident runs of three or more stops form a single edge.
+      if (position - edgePosition < HARD_STOP_EPS) {
+        after = layerStopColor(layerIndex, stopIndex + 1, colorSpaceCode);
+        continue;
+      }
+      break;
+    }
+
+    float offset = t - position;
+    if (repeating) {
+      offset -= period * floor(offset / period + 0.5);
+    }
+    if (abs(offset) < footprint * 0.5) {
+      found = true;
+      edgePosition = position;
+      edgeDistance = offset;
+      before = layerStopColor(layerIndex, stopIndex, colorSpaceCode);
+      after = layerStopColor(layerIndex, stopIndex + 1, colorSpaceCode);
+    }
+  }
+
+  if (!found && repeating) {
+    // The seam where the last stop wraps back to the first.
+    float offset = t - first;
+    offset -= period * floor(offset / period + 0.5);
+    if (abs(offset) < footprint * 0.5) {
+      found = true;
+      edgeDistance = offset;
+      before = layerStopColor(layerIndex, stopCount - 1, colorSpaceCode);
+      after = layerStopColor(layerIndex, 0, colorSpaceCode);
     }
+  }
 
-    vec4 startLab = layerStopColorLab(layerIndex, stopIndex);
-    vec4 endLab = layerStopColorLab(layerIndex, stopIndex + 1);
-    return oklabToLinear(mix(startLab, endLab, segT));
+  if (!found) {
+    return color;
   }
 
-  vec4 fallback = layerStopColorLinear(layerIndex, lastIndex);
-  if (colorSpaceCode == 1) {
-    fallback = oklabToLinear(layerStopColorLab(layerIndex, lastIndex));
+  if (edgeDistance == 0.0) {
+    return mixByCoverage(before, after, 0.5);
   }
-  return fallback;
+
+  float coverage = edgeDistance / footprint + 0.5;
+  return edgeDistance > 0.0
+    ? mixByCoverage(before, color, coverage)
+    : mixByCoverage(color, after, coverage);
 }
 
-float signedDistanceRoundedRect(vec2 p, vec4 rect, float radius) {
+// radii are top-left, top-right, bottom-right, bottom-left; mirrors
+// resolveCornerRadii on the CPU.
+float signedDistanceRoundedRect(vec2 p, vec4 rect, vec4 radii) {
   vec2 center = rect.xy + rect.zw * 0.5;
   vec2 halfSize = rect.zw * 0.5;
-  float r = clamp(radius, 0.0, min(halfSize.x, halfSize.y));
-  vec2 q = abs(p - center) - (halfSize - vec2(r));
+  vec4 corners = max(radii, vec4(0.0));
+  float scale = min(
+    min(1.0, rect.z / max(EPS, corners.x + corners.y)),
+    min(
+      min(rect.z / max(EPS, corners.w + corners.z), rect.w / max(EPS, corners.x + corners.w)),
+      rect.w / max(EPS, corners.y + corners.z)
+    )
+  );
+  corners = min(corners * scale, vec4(min(halfSize.x, halfSize.y)));
+  vec2 side = p - center;
+  vec2 pair = side.x > 0.0 ? corners.yz : corners.xw;
+  float r = side.y > 0.0 ? pair.y : pair.x;
+  vec2 q = abs(side) - (halfSize - vec2(r));
   float outside = length(max(q, vec2(0.0)));
   float inside = min(max(q.x, q.y), 0.0);
   return outside + inside - r;
 }
 
-vec2 sampleLayerProgress(int layerIndex, vec2 designPx) {
+// Lp norm: p=2 is standard ellipse, p>2 gives squircle shapes.
+float lpNorm(vec2 v, float p) {
+  if (p <= 2.01 && p >= 1.99) {
+    return length(v);
+  }
+  return pow(pow(abs(v.x), p) + pow(abs(v.y), p), 1.0 / p);
+}
+
+const int FOCAL_BISECTION_STEPS = 24;
+
+// Two-point conical cone parameter, mirroring sampleFocalDistance on the CPU.
+// focus.xy is the focal offset in ellipse units, focus.z the focal radius.
+float sampleFocalDistance(vec2 delta, vec3 focus, float p) {
+  vec2 q = delta - focus.xy;
+  float reach = 1.0 - focus.z;
+  float offset = lpNorm(q, p) - focus.z;
+  if (offset <= 0.0) {
+    return 0.0;
+  }
+
+  if (p <= 2.01 && p >= 1.99) {
+    float a = dot(focus.xy, focus.xy) - reach * reach;
+    float b = dot(q, focus.xy) - focus.z * reach;
+    float c = dot(q, q) - focus.z * focus.z;
+    return (b + sqrt(max(0.0, b * b - a * c))) / -a;
+  }
+
+  float low = 0.0;
+  float high = offset / max(EPS, reach - lpNorm(focus.xy, p));
+  for (int i = 0; i < FOCAL_BISECTION_STEPS; i++) {
+    float mid = 0.5 * (low + high);
+    float residual = lpNorm(q + mid * focus.xy, p) - focus.z - mid * reach;
+    if (residual > 0.0) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return 0.5 * (low + high);
+}
+
+// Mirrors mod289 in noise.ts. The division may round across a multiple of
+// 289, so fold the result back into [0, 289).
+float mod289(float value) {
+  float reduced = value - floor(value / 289.0) * 289.0;
+  if (reduced < 0.0) {
+    return reduced + 289.0;
+  }
+  return reduced >= 289.0 ? reduced - 289.0 : reduced;
+}
+
+vec3 mod289(vec3 value) {
+  return vec3(mod289(value.x), mod289(value.y), mod289(value.z));
+}
+
+vec3 permute(vec3 value) {
+  return mod289((value * 34.0 + 10.0) * value);
+}
+
+// Mirrors simplexNoise2D (webgl-noise by Gustavson and McEwan).
+float simplexNoise2D(vec2 v) {
+  const vec4 C = vec4(
+    0.211324865405187,
+    0.366025403784439,
+    -0.577350269189626,
+    0.024390243902439
+  );
+
+  vec2 i = floor(v + (v.x + v.y) * C.y);
+  vec2 x0 = v - i + (i.x + i.y) * C.x;
+  vec2 i1 = x0.x > x0.y ? vec2(1.0, 0.0) : vec2(0.0, 1.0);
+  vec4 x12 = x0.xyxy + C.xxzz;
+  x12.xy -= i1;
+
+  i = vec2(mod289(i.x), mod289(i.y));
+  vec3 p = permute(permute(i.y + vec3(0.0, i1.y, 1.0)) + i.x + vec3(0.0, i1.x, 1.0));
+
+  vec3 m = max(0.5 - vec3(dot(x0, x0), dot(x12.xy, x12.xy), dot(x12.zw, x12.zw)), 0.0);
+  m = m * m;
+  m = m * m;
+
+  vec3 x = 2.0 * fract(p * C.www) - 1.0;
+  vec3 h = abs(x) - 0.5;
+  vec3 a0 = x - floor(x + 0.5);
+  m *= 1.79284291400159 - 0.85373472095314 * (a0 * a0 + h * h);
+
+  vec3 g = vec3(
+    a0.x * x0.x + h.x * x0.y,
+    a0.y * x12.x + h.y * x12.y,
+    a0.z * x12.z + h.z * x12.w
+  );
+  return 130.0 * dot(m, g);
+}
+
+// Mirrors sampleFbm; noise1 is (scale, octaves, lacunarity, gain), noise2.xy the seed offset.
+float sampleFbm(vec2 p, vec4 noise1, vec4 noise2) {
+  int octaves = int(noise1.y + 0.5);
+  float frequency = 1.0;
+  float amplitude = 1.0;
+  float sum = 0.0;
+  float total = 0.0;
+
+  for (int octave = 0; octave < MAX_NOISE_OCTAVES; octave++) {
+    if (octave >= octaves) {
+      break;
+    }
+    vec2 shift = noise2.xy + float(octave) * vec2(17.0, 29.0);
+    sum += amplitude * simplexNoise2D(p * frequency + shift);
+    total += amplitude;
+    frequency *= noise1.z;
+    amplitude *= noise1.w;
+  }
+
+  return total > 0.0 ? sum / total : 0.0;
+}
+
+const vec2 WARP_SHIFT = vec2(5.2, 1.3);
+
+// Mirrors warpPoint.
+vec2 warpPoint(int layerIndex, vec2 designPx) {
+  vec4 warp = uLayerWarp[layerIndex];
+  if (warp.x == 0.0) {
+    return designPx;
+  }
+
+  vec4 transform2 = uLayerTransform2[layerIndex];
+  vec4 fbm = vec4(1.0, transform2.w, 2.0, 0.5);
+  vec4 offset = vec4(warp.zw, 0.0, 0.0);
+  vec2 p = designPx * warp.y;
+  return designPx + warp.x * vec2(
+    sampleFbm(p, fbm, offset),
+    sampleFbm(p, fbm, offset + vec4(WARP_SHIFT, 0.0, 0.0))
+  );
+}
+
+// Mirrors toLayerSpace: a singular transform collapses the layer.
+bool isLayerCollapsed(int layerIndex) {
+  vec4 transform1 = uLayerTransform1[layerIndex];
+  return uLayerTransform2[layerIndex].z > 0.5 &&
+    transform1.x * transform1.w - transform1.y * transform1.z == 0.0;
+}
+
+vec2 toLayerSpace(int layerIndex, vec2 designPx) {
+  designPx = warpPoint(layerIndex, designPx);
+  vec4 transform2 = uLayerTransform2[layerIndex];
+  if (transform2.z < 0.5) {
+    return designPx;
+  }
+  return mat2(uLayerTransform1[layerIndex]) * designPx + transform2.xy;
+}
+
+// Mirrors signedDistanceToSegments: nonzero winding decides the sign.
+float signedDistanceToShape(int layerIndex, vec2 p) {
+  vec4 shape = uLayerParams1[layerIndex];
+  int segmentCount = int(shape.y + 0.5);
+  float nearest = 1.0e30;
+  int winding = 0;
+
+  for (int i = 0; i < MAX_SHAPE_SEGMENTS; i++) {
+    if (i >= segmentCount) {
+      break;
+    }
+
+    vec2 uv = (vec2(float(i), shape.x) + 0.5) / uShapeDataSize;
+    vec4 segment = texture2D(uShapeData, uv);
+    vec2 edge = segment.zw - segment.xy;
+    vec2 toPoint = p - segment.xy;
+    float lengthSq = dot(edge, edge);
+    float along = lengthSq > 0.0 ? clamp01(dot(toPoint, edge) / lengthSq) : 0.0;
+    vec2 offset = toPoint - edge * along;
+    nearest = min(nearest, dot(offset, offset));
+
+    float side = edge.x * toPoint.y - edge.y * toPoint.x;
+    if (segment.y <= p.y) {
+      if (segment.w > p.y && side > 0.0) {
+        winding++;
+      }
+    } else if (segment.w <= p.y && side < 0.0) {
+      winding--;
+    }
+  }
+
+  float shapeDistance = sqrt(nearest);
+  return winding != 0 ? -shapeDistance : shapeDistance;
+}
+
+// Mirrors sampleOutlineShadow; uLayerParams2 holds (unused, spread, blur, inset).
+vec2 sampleOutlineShadow(int layerIndex, float sdf) {
+  vec4 box2 = uLayerParams2[layerIndex];
+  float spread = box2.y;
+  float blur = max(0.0, box2.z);
+
+  if (box2.w > 0.5) {
+    if (sdf > 0.0) {
+      return vec2(0.0, 0.0);
+    }
+    float innerSdf = sdf + spread;
+    if (blur <= EPS) {
+      return vec2(innerSdf < 0.0 ? 1.0 : 0.0, 1.0);
+    }
+    return vec2(1.0 - gaussianShadow(innerSdf, blur), 1.0);
+  }
+
+  if (sdf <= 0.0) {
+    return vec2(0.0, 0.0);
+  }
+  if (blur <= EPS) {
+    return vec2(0.0, sdf <= spread ? 1.0 : 0.0);
+  }
+  float rawAlpha = 1.0 - gaussianShadow(sdf - spread, blur);
+  if (rawAlpha < 0.001) {
+    return vec2(0.0, 0.0);
+  }
+  return vec2(1.0 - rawAlpha, 1.0);
+}
+
+vec2 sampleShapeProgress(int layerIndex, vec2 designPx) {
+  if (uLayerParams1[layerIndex].y < 0.5) {
+    return vec2(0.0, 0.0);
+  }
+  return sampleOutlineShadow(layerIndex, signedDistanceToShape(layerIndex, designPx));
+}
+
+// Mirrors signedDistanceEllipse: exact for circles, first-order for ellipses.
+float signedDistanceEllipse(vec2 p, vec2 radii) {
+  float k0 = length(p / radii);
+  float k1 = length(p / (radii * radii));
+  return k1 > EPS ? k0 * (k0 - 1.0) / k1 : -min(radii.x, radii.y);
+}
+
+float smoothMin(float a, float b, float k) {
+  if (k <= EPS) {
+    return min(a, b);
+  }
+  float h = max(k - abs(a - b), 0.0) / k;
+  return min(a, b) - h * h * k * 0.25;
+}
+
+// Mirrors sampleStrokeProgress; uLayerParams1 holds (row, segment count, width, blur).
+vec2 sampleStrokeProgress(int layerIndex, vec2 designPx) {
+  vec4 stroke = uLayerParams1[layerIndex];
+  int segmentCount = int(stroke.y + 0.5);
+  if (segmentCount == 0) {
+    return vec2(0.0, 0.0);
+  }
+
+  float nearest = 1.0e30;
+  float arcLength = 0.0;
+  float pathLength = 0.0;
+  for (int i = 0; i < MAX_SHAPE_SEGMENTS; i++) {
+    if (i >= segmentCount) {
+      break;
+    }
+
+    vec2 uv = (vec2(float(i), stroke.x) + 0.5) / uShapeDataSize;
+    vec4 segment = texture2D(uShapeData, uv);
+    vec2 edge = segment.zw - segment.xy;
+    vec2 toPoint = designPx - segment.xy;
+    float lengthSq = dot(edge, edge);
+    float along = clamp01(dot(toPoint, edge) / lengthSq);
+    vec2 offset = toPoint - edge * along;
+    float segmentLength = sqrt(lengthSq);
+    if (dot(offset, offset) < nearest) {
+      nearest = dot(offset, offset);
+      arcLength = pathLength + along * segmentLength;
+    }
+    pathLength += segmentLength;
+  }
+
+  float edgeDistance = sqrt(nearest) - max(0.0, stroke.z) * 0.5;
+  float blur = max(0.0, stroke.w);
+  float mask = blur <= EPS
+    ? (edgeDistance <= 0.0 ? 1.0 : 0.0)
+    : 1.0 - gaussianShadow(edgeDistance, blur);
+  if (mask < 0.001) {
+    return vec2(0.0, 0.0);
+  }
+  return vec2(arcLength / pathLength, mask);
+}
+
+// Mirrors sampleBlobProgress; uLayerParams1 holds (row, blob count, k, unused).
+vec2 sampleBlobProgress(int layerIndex, vec2 designPx) {
+  vec4 shape = uLayerParams1[layerIndex];
+  int blobCount = int(shape.y + 0.5);
+  if (blobCount == 0) {
+    return vec2(0.0, 0.0);
+  }
+
+  float sdf = 0.0;
+  for (int i = 0; i < MAX_BLOBS; i++) {
+    if (i >= blobCount) {
+      break;
+    }
+
+    vec2 uv = (vec2(float(i), shape.x) + 0.5) / uShapeDataSize;
+    vec4 blob = texture2D(uShapeData, uv);
+    float blobDistance = signedDistanceEllipse(designPx - blob.xy, max(blob.zw, vec2(EPS)));
+    sdf = i == 0 ? blobDistance : smoothMin(sdf, blobDistance, shape.z);
+  }
+
+  return sampleOutlineShadow(layerIndex, sdf);
+}
+
+// Radial progress of a radial layer or a pattern's fade; radial3 holds the
+// focus, with w 0 for none.
+float sampleRadialProgress(vec4 radial1, vec4 radial2, vec4 radial3, float spreadCode, vec2 designPx) {
+  vec2 center = radial1.xy;
+  vec2 radius = vec2(max(EPS, radial1.z), max(EPS, radial1.w));
+  vec2 delta = (designPx - center) / radius;
+
+  float p = radial2.w;
+  float distanceValue = radial3.w > 0.5
+    ? sampleFocalDistance(delta, radial3.xyz, p)
+    : lpNorm(delta, p);
+
+  float innerRadius = radial2.x;
+  float outerRadius = radial2.y;
+  float span = max(EPS, outerRadius - innerRadius);
+  float rawT = (distanceValue - innerRadius) / span;
+  float falloff = max(EPS, radial2.z);
+
+  return shapeProgress(rawT, falloff, spreadCode);
+}
+
+// Mirrors sampleLineCoverage: box-filtered lines centered on multiples of spacing.
+float sampleLineCoverage(float u, float spacing, float size, float footprint) {
+  float start = u - footprint * 0.5 + size * 0.5;
+  float end = u + footprint * 0.5 + size * 0.5;
+  float startCovered = floor(start / spacing) * size + clamp(start - floor(start / spacing) * spacing, 0.0, size);
+  float endCovered = floor(end / spacing) * size + clamp(end - floor(end / spacing) * spacing, 0.0, size);
+  return clamp01((endCovered - startCovered) / footprint);
+}
+
+// Mirrors samplePatternProgress; uLayerParams3 holds (kind, spacing, size, fade),
+// uLayerParams4.xy the pattern origin and uLayerParams1-2 the fade.
+vec2 samplePatternProgress(int layerIndex, vec2 designPx, float footprint) {
+  vec4 pattern = uLayerParams3[layerIndex];
+  float spacing = max(EPS, pattern.y);
+  float size = pattern.z;
+  float pixel = max(EPS, footprint);
+  vec2 local = designPx - uLayerParams4[layerIndex].xy;
+
+  float coverage;
+  if (pattern.x < 0.5) {
+    vec2 cell = local - spacing * floor(local / spacing + 0.5);
+    float sharp = clamp01(0.5 - (length(cell) - size * 0.5) / pixel);
+    float average = min(1.0, 3.14159265 * size * size / (4.0 * spacing * spacing));
+    coverage = mix(sharp, average, clamp01(2.0 * pixel / spacing - 1.0));
+  } else if (pattern.x > 2.5) {
+    float across = sampleLineCoverage(local.x - spacing * 0.5, 2.0 * spacing, spacing, pixel);
+    float down = sampleLineCoverage(local.y - spacing * 0.5, 2.0 * spacing, spacing, pixel);
+    coverage = 1.0 - (across + down - 2.0 * across * down);
+  } else {
+    float rows = sampleLineCoverage(local.y, spacing, size, pixel);
+    float columns = pattern.x < 1.5 ? sampleLineCoverage(local.x, spacing, size, pixel) : 0.0;
+    coverage = rows + columns - rows * columns;
+  }
+
+  if (pattern.w < 0.5) {
+    return vec2(0.0, coverage);
+  }
+  float fade = sampleRadialProgress(
+    uLayerParams1[layerIndex],
+    uLayerParams2[layerIndex],
+    vec4(0.0),
+    uLayerMeta3[layerIndex].w,
+    designPx
+  );
+  return vec2(fade, coverage * (1.0 - fade));
+}
+
+vec2 sampleLayerProgress(int layerIndex, vec2 designPx, float pixelSize) {
   float layerType = uLayerMeta1[layerIndex].x;
 
+  if (isLayerCollapsed(layerIndex)) {
+    return vec2(0.0, 0.0);
+  }
+  // From here on, designPx is in the layer's own space.
+  designPx = toLayerSpace(layerIndex, designPx);
+
   if (layerType < 0.5) {
-    vec4 linear1 = uLayerLinear1[layerIndex];
-    vec4 linear2 = uLayerLinear2[layerIndex];
-    vec4 linear3 = uLayerLinear3[layerIndex];
+    vec4 linear1 = uLayerParams1[layerIndex];
+    vec4 linear2 = uLayerParams2[layerIndex];
+    vec4 linear3 = uLayerParams3[layerIndex];
 
     float rawT = 0.0;
     float mode = linear1.x;
@@ -259,44 +1182,74 @@ vec2 sampleLayerProgress(int layerIndex, vec2 designPx) {
     }
 
     float easing = max(EPS, linear3.y);
-    float t = pow(clamp01(rawT), easing);
-    return vec2(t, 1.0);
+    return vec2(shapeProgress(rawT, easing, uLayerMeta3[layerIndex].w), 1.0);
   }
 
   if (layerType < 1.5) {
-    vec4 radial1 = uLayerRadial1[layerIndex];
-    vec4 radial2 = uLayerRadial2[layerIndex];
-
-    vec2 center = radial1.xy;
-    vec2 radius = vec2(max(EPS, radial1.z), max(EPS, radial1.w));
-    vec2 delta = (designPx - center) / radius;
-
-    // Lp norm: p=2 is standard ellipse, p>2 gives squircle shapes.
-    float p = radial2.w;
-    float distanceValue;
-    if (p <= 2.01 && p >= 1.99) {
-      distanceValue = length(delta);
-    } else {
-      distanceValue = pow(pow(abs(delta.x), p) + pow(abs(delta.y), p), 1.0 / p);
-    }
+    float radialT = sampleRadialProgress(
+      uLayerParams1[layerIndex],
+      uLayerParams2[layerIndex],
+      uLayerParams3[layerIndex],
+      uLayerMeta3[layerIndex].w,
+      designPx
+    );
+    return vec2(radialT, 1.0);
+  }
+
+  if (layerType > 9.5) {
+    // A transform scales the pixel footprint by the root of its determinant.
+    vec4 transform1 = uLayerTransform1[layerIndex];
+    float footprint = uLayerTransform2[layerIndex].z > 0.5
+      ? pixelSize * sqrt(abs(transform1.x * transform1.w - transform1.y * transform1.z))
+      : pixelSize;
+    return samplePatternProgress(layerIndex, designPx, footprint);
+  }
+
+  if (layerType > 8.5) {
+    return sampleStrokeProgress(layerIndex, designPx);
+  }
+
+  if (layerType > 7.5) {
+    return sampleBlobProgress(layerIndex, designPx);
+  }
 
-    float innerRadius = radial2.x;
-    float outerRadius = radial2.y;
-    float span = max(EPS, outerRadius - innerRadius);
-    float rawT = clamp01((distanceValue - innerRadius) / span);
-    float falloff = max(EPS, radial2.z);
+  if (layerType > 6.5) {
+    return sampleShapeProgress(layerIndex, designPx);
+  }
+
+  if (layerType > 5.5) {
+    vec4 noise1 = uLayerParams1[layerIndex];
+    float value = sampleFbm(designPx / noise1.x, noise1, uLayerParams2[layerIndex]);
+    return vec2(clamp01(0.5 + 0.5 * value), 1.0);
+  }
+
+  if (layerType > 2.5) {
+    vec4 conic = uLayerParams1[layerIndex];
+    vec2 delta = designPx - conic.xy;
 
-    return vec2(pow(rawT, falloff), 1.0);
+    // Clockwise from 12 o'clock; the center itself sits on the start angle.
+    float angle = length(delta) < EPS ? 0.0 : degrees(atan(delta.x, -delta.y));
+    float offset = mod(angle - conic.z, 360.0);
+    return vec2(shapeProgress(offset / conic.w, 1.0, uLayerMeta3[layerIndex].w), 1.0);
   }
 
-  vec4 box1 = uLayerBox1[layerIndex];
-  vec4 box2 = uLayerBox2[layerIndex];
+  vec4 box1 = uLayerParams1[layerIndex];
+  vec4 box2 = uLayerParams2[layerIndex];
 
-  float outerRadius = box2.x;
+  vec4 outerRadius = uLayerParams3[layerIndex];
   float spread = box2.y;
   float blur = max(0.0, box2.z);
   bool inset = box2.w > 0.5;
 
+  if (abs(box2.x) > EPS) {
+    // Sample the unrotated box at the point rotated back around its center.
+    vec2 boxCenter = box1.xy + box1.zw * 0.5;
+    vec2 delta = designPx - boxCenter;
+    float c = cos(box2.x);
+    float s = sin(box2.x);
+    designPx = boxCenter + vec2(delta.x * c + delta.y * s, -delta.x * s + delta.y * c);
+  }
+
   if (inset) {
     // Outer clip
     float outerSdf = signedDistanceRoundedRect(designPx, box1, outerRadius);
@@ -310,7 +1263,7 @@ vec2 sampleLayerProgress(int layerIndex, vec2 designPx) {
     if (innerW <= 0.0 || innerH <= 0.0) {
       return vec2(0.0, 1.0);
     }
-    float innerR = max(0.0, outerRadius - spread);
+    vec4 innerR = max(vec4(0.0), outerRadius - vec4(spread));
     vec4 innerRect = vec4(box1.x + spread, box1.y + spread, innerW, innerH);
     float innerSdf = signedDistanceRoundedRect(designPx, innerRect, innerR);
 
@@ -328,7 +1281,7 @@ vec2 sampleLayerProgress(int layerIndex, vec2 designPx) {
     return vec2(0.0, 0.0);
   }
   if (blur <= EPS) {
-    return vec2(sdf <= spread ? 0.0 : 0.0, sdf <= spread ? 1.0 : 0.0);
+    return vec2(0.0, sdf <= spread ? 1.0 : 0.0);
   }
   float d = sdf - spread;
   float rawAlpha = 1.0 - gaussianShadow(d, blur);
@@ -338,6 +1291,289 @@ vec2 sampleLayerProgress(int layerIndex, vec2 designPx) {
   return vec2(1.0 - rawAlpha, 1.0);
 }
 
+const int MESH_NEWTON_STEPS = ${MESH_NEWTON_STEPS};
+const float MESH_TOLERANCE = ${MESH_TOLERANCE.toFixed(4)};
+const float MESH_EDGE_EPS = 0.0001;
+const float MESH_MAX_STEP = 0.5;
+
+// One texel of a mesh patch row in uMeshData; see packMeshData for the layout.
+vec4 meshTexel(float patchRow, float texel) {
+  vec2 uv = vec2(texel + 0.5, patchRow + 0.5) / uMeshDataSize;
+  return texture2D(uMeshData, uv);
+}
+
+vec2 bezierPoint(vec2 p0, vec2 p1, vec2 p2, vec2 p3, float t) {
+  float s = 1.0 - t;
+  return s * s * s * p0 + 3.0 * s * s * t * p1 + 3.0 * s * t * t * p2 + t * t * t * p3;
+}
+
+vec2 bezierTangent(vec2 p0, vec2 p1, vec2 p2, vec2 p3, float t) {
+  float s = 1.0 - t;
+  return 3.0 * s * s * (p1 - p0) + 6.0 * s * t * (p2 - p1) + 3.0 * t * t * (p3 - p2);
+}
+
+// Mirrors invertMeshPatch: damped Newton on the Coons surface from the
+// patch center. Returns (u, v, 1) on a hit and (0, 0, 0) otherwise.
+vec3 invertMeshPatch(float patchRow, vec2 target) {
+  vec4 top01 = meshTexel(patchRow, 0.0);
+  vec4 top23 = meshTexel(patchRow, 1.0);
+  vec4 bottom01 = meshTexel(patchRow, 2.0);
+  vec4 bottom23 = meshTexel(patchRow, 3.0);
+  vec4 leftHandles = meshTexel(patchRow, 4.0);
+  vec4 rightHandles = meshTexel(patchRow, 5.0);
+
+  vec2 p00 = top01.xy;
+  vec2 p10 = top23.zw;
+  vec2 p01 = bottom01.xy;
+  vec2 p11 = bottom23.zw;
+
+  vec2 uv = vec2(0.5);
+  for (int iteration = 0; iteration < MESH_NEWTON_STEPS; iteration++) {
+    float u = uv.x;
+    float v = uv.y;
+
+    vec2 topPoint = bezierPoint(p00, top01.zw, top23.xy, p10, u);
+    vec2 bottomPoint = bezierPoint(p01, bottom01.zw, bottom23.xy, p11, u);
+    vec2 leftPoint = bezierPoint(p00, leftHandles.xy, leftHandles.zw, p01, v);
+    vec2 rightPoint = bezierPoint(p10, rightHandles.xy, rightHandles.zw, p11, v);
+
+    vec2 bilinear = mix(mix(p00, p10, u), mix(p01, p11, u), v);
+    vec2 surface = (1.0 - v) * topPoint + v * bottomPoint +
+      (1.0 - u) * leftPoint + u * rightPoint - bilinear;
+    vec2 error = surface - target;
+    if (abs(error.x) + abs(error.y) < MESH_TOLERANCE) {
+      bool inside = uv.x >= -MESH_EDGE_EPS && uv.x <= 1.0 + MESH_EDGE_EPS &&
+        uv.y >= -MESH_EDGE_EPS && uv.y <= 1.0 + MESH_EDGE_EPS;
+      return inside ? vec3(clamp(uv, 0.0, 1.0), 1.0) : vec3(0.0);
+    }
+
+    vec2 du = (1.0 - v) * bezierTangent(p00, top01.zw, top23.xy, p10, u) +
+      v * bezierTangent(p01, bottom01.zw, bottom23.xy, p11, u) -
+      leftPoint + rightPoint - mix(p10 - p00, p11 - p01, v);
+    vec2 dv = bottomPoint - topPoint +
+      (1.0 - u) * bezierTangent(p00, leftHandles.xy, leftHandles.zw, p01, v) +
+      u * bezierTangent(p10, rightHandles.xy, rightHandles.zw, p11, v) -
+      mix(p01 - p00, p11 - p10, u);
+
+    float det = du.x * dv.y - dv.x * du.y;
+    if (abs(det) < EPS) {
+      return vec3(0.0);
+    }
+
+    vec2 stepUv = vec2(dv.y * error.x - dv.x * error.y, du.x * error.y - du.y * error.x) / det;
+    float stepLength = max(abs(stepUv.x), abs(stepUv.y));
+    if (stepLength > MESH_MAX_STEP) {
+      stepUv *= MESH_MAX_STEP / stepLength;
+    }
+    uv -= stepUv;
+  }
+
+  return vec3(0.0);
+}
+
+// Mirrors locateMeshPoint: later patches paint over earlier ones.
+// Returns (patchRow, u, v), with patchRow -1 outside the mesh.
+vec3 locateMeshPoint(int layerIndex, vec2 layerPx) {
+  vec4 mesh = uLayerParams1[layerIndex];
+  int patchCount = int(mesh.y + 0.5);
+
+  for (int i = 0; i < MAX_MESH_PATCHES; i++) {
+    if (i >= patchCount) {
+      break;
+    }
+
+    float patchRow = mesh.x + float(patchCount - 1 - i);
+    vec4 bounds = meshTexel(patchRow, 6.0);
+    if (layerPx.x < bounds.x || layerPx.y < bounds.y || layerPx.x > bounds.z || layerPx.y > bounds.w) {
+      continue;
+    }
+
+    vec3 hit = invertMeshPatch(patchRow, layerPx);
+    if (hit.z > 0.5) {
+      return vec3(patchRow, hit.xy);
+    }
+  }
+
+  return vec3(-1.0, 0.0, 0.0);
+}
+
+vec4 mixMeshColors(vec4 start, vec4 end, float t, int layerIndex, bool polar) {
+  bool premultiplied = uLayerMeta3[layerIndex].z > 0.5;
+  if (premultiplied) {
+    start = premultiplyCoords(start, polar);
+    end = premultiplyCoords(end, polar);
+  }
+
+  vec4 mixed = polar
+    ? mixPolar(start, end, t, uLayerMeta3[layerIndex].x)
+    : mix(start, end, t);
+  return premultiplied ? unpremultiplyCoords(mixed, polar) : mixed;
+}
+
+// Mirrors sampleMeshLayer on the CPU; mask is 0 outside the mesh.
+vec4 sampleMeshLayer(int layerIndex, vec2 designPx, out float t, out float mask) {
+  t = 0.0;
+  mask = 0.0;
+  if (isLayerCollapsed(layerIndex)) {
+    return vec4(0.0);
+  }
+
+  vec3 hit = locateMeshPoint(layerIndex, toLayerSpace(layerIndex, designPx));
+  if (hit.x < 0.0) {
+    return vec4(0.0);
+  }
+
+  int colorSpaceCode = int(uLayerMeta1[layerIndex].z + 0.5);
+  bool polar = isPolarSpace(colorSpaceCode);
+  vec4 top = mixMeshColors(meshTexel(hit.x, 8.0), meshTexel(hit.x, 9.0), hit.y, layerIndex, polar);
+  vec4 bottom = mixMeshColors(meshTexel(hit.x, 10.0), meshTexel(hit.x, 11.0), hit.y, layerIndex, polar);
+
+  t = (meshTexel(hit.x, 7.0).x + hit.z) / max(1.0, uLayerParams1[layerIndex].z - 1.0);
+  mask = 1.0;
+  return coordsToLinearOutput(mixMeshColors(top, bottom, hit.z, layerIndex, polar), colorSpaceCode);
+}
+
+const float FREEFORM_MIN_DISTANCE = ${FREEFORM_MIN_DISTANCE.toFixed(4)};
+const int OKLAB_CODE = 1;
+
+// Mirrors sampleFreeformWeights: the unnormalized log-weight of one point.
+float freeformExponent(vec4 point, vec2 layerPx, vec4 freeform) {
+  float pointDistance = length(layerPx - point.xy);
+  if (freeform.z > 0.5) {
+    float scaled = pointDistance / point.z;
+    return -0.5 * scaled * scaled;
+  }
+  return freeform.w * log(point.z / max(pointDistance, FREEFORM_MIN_DISTANCE));
+}
+
+// One texel of image slot 0 or 1, clamped to the image's edge.
+vec4 imageTexel(float slot, vec2 size, vec2 texel) {
+  vec2 uv = (clamp(texel, vec2(0.0), size - 1.0) + 0.5) / size;
+  return slot < 0.5 ? texture2D(uImage0, uv) : texture2D(uImage1, uv);
+}
+
+// Mirrors sampleImage: bilinear in premultiplied linear light. placement is
+// (x, y, scale, slot); inside is 0 where the point misses the image.
+vec4 sampleImage(vec4 placement, vec2 designPx, out float inside) {
+  vec2 size = placement.w < 0.5 ? uImage0Size : uImage1Size;
+  vec2 imagePx = (designPx - placement.xy) / placement.z;
+  inside = 0.0;
+  if (any(lessThan(imagePx, vec2(0.0))) || any(greaterThan(imagePx, size))) {
+    return vec4(0.0);
+  }
+
+  inside = 1.0;
+  vec2 corner = floor(imagePx - 0.5);
+  vec2 fraction = imagePx - 0.5 - corner;
+  vec4 upper = mix(
+    imageTexel(placement.w, size, corner),
+    imageTexel(placement.w, size, corner + vec2(1.0, 0.0)),
+    fraction.x
+  );
+  vec4 lower = mix(
+    imageTexel(placement.w, size, corner + vec2(0.0, 1.0)),
+    imageTexel(placement.w, size, corner + vec2(1.0, 1.0)),
+    fraction.x
+  );
+  return mix(upper, lower, fraction.y);
+}
+
+vec4 unpremultiplyImage(vec4 color) {
+  return color.a > EPS ? vec4(color.rgb / color.a, color.a) : vec4(0.0);
+}
+
+// Mirrors sampleImageLayer on the CPU; uLayerParams1 holds the image placement.
+vec4 sampleImageLayer(int layerIndex, vec2 designPx, out float t, out float mask) {
+  t = 0.0;
+  mask = 0.0;
+  if (isLayerCollapsed(layerIndex)) {
+    return vec4(0.0);
+  }
+
+  vec4 color = sampleImage(uLayerParams1[layerIndex], toLayerSpace(layerIndex, designPx), mask);
+  return unpremultiplyImage(color);
+}
+
+// Mirrors sampleFreeformLayer on the CPU: a weighted sum of the points in Oklab.
+vec4 sampleFreeformLayer(int layerIndex, vec2 designPx, out float t, out float mask) {
+  t = 0.0;
+  mask = 0.0;
+  if (isLayerCollapsed(layerIndex)) {
+    return vec4(0.0);
+  }
+
+  vec2 layerPx = toLayerSpace(layerIndex, designPx);
+  vec4 freeform = uLayerParams1[layerIndex];
+  int first = int(freeform.x + 0.5);
+  int pointCount = int(freeform.y + 0.5);
+
+  float largest = -1.0e30;
+  float nearest = 1.0e30;
+  for (int i = 0; i < MAX_FREEFORM_POINTS; i++) {
+    if (i >= pointCount) {
+      break;
+    }
+    vec4 point = uFreeformPoint[first + i];
+    largest = max(largest, freeformExponent(point, layerPx, freeform));
+    nearest = min(nearest, length(layerPx - point.xy) / point.z);
+  }
+
+  bool premultiplied = uLayerMeta3[layerIndex].z > 0.5;
+  vec3 sum = vec3(0.0);
+  float alpha = 0.0;
+  float total = 0.0;
+  for (int i = 0; i < MAX_FREEFORM_POINTS; i++) {
+    if (i >= pointCount) {
+      break;
+    }
+    vec4 color = uFreeformColor[first + i];
+    float weight = exp(freeformExponent(uFreeformPoint[first + i], layerPx, freeform) - largest);
+    sum += color.xyz * weight * (premultiplied ? color.w : 1.0);
+    alpha += color.w * weight;
+    total += weight;
+  }
+
+  sum /= total;
+  alpha /= total;
+  if (premultiplied && alpha > 0.0) {
+    sum /= alpha;
+  }
+
+  t = clamp01(nearest);
+  mask = 1.0;
+  return coordsToLinearOutput(vec4(sum, alpha), OKLAB_CODE);
+}
+
+// Mirrors sampleGradientLayer on the CPU; mask is 0 where the layer is absent.
+vec4 sampleGradientLayer(int layerIndex, vec2 designPx, vec2 pixelSize, out float t, out float mask) {
+  float footprintSize = max(pixelSize.x, pixelSize.y);
+  vec2 progress = sampleLayerProgress(layerIndex, designPx, footprintSize);
+  t = progress.x;
+  mask = progress.y;
+  if (mask <= 0.0) {
+    return vec4(0.0);
+  }
+
+  int stopCount = int(uLayerMeta2[layerIndex].w + 0.5);
+  t = foldProgress(layerIndex, stopCount, progress.x);
+
+  int colorSpaceCode = int(uLayerMeta1[layerIndex].z + 0.5);
+  if (!hasHardStops(layerIndex)) {
+    return sampleStops(layerIndex, t, colorSpaceCode);
+  }
+
+  // Differences of unwrapped progress to the neighbors one pixel back along
+  // x and y, matching the CPU renderer.
+  float center = unwrapProgress(layerIndex, stopCount, progress.x);
+  float dx = sampleLayerProgress(layerIndex, designPx - vec2(pixelSize.x, 0.0), footprintSize).x;
+  float dy = sampleLayerProgress(layerIndex, designPx - vec2(0.0, pixelSize.y), footprintSize).x;
+  float footprint = abs(unwrapProgress(layerIndex, stopCount, dx) - center) +
+    abs(unwrapProgress(layerIndex, stopCount, dy) - center);
+  return sampleStopsAntialiased(layerIndex, t, footprint, colorSpaceCode);
+}
+
+// Mirrors applyShadow on the CPU. Mode codes: 0 darken (multiply), 1 tint
+// (replace), 2 lighten (screen); the space codes are compositeLinear's.
 vec4 applyShadow(vec4 color, int layerIndex, float t) {
   vec4 meta2 = uLayerMeta2[layerIndex];
   float startIntensity = meta2.x;
@@ -345,12 +1581,32 @@ vec4 applyShadow(vec4 color, int layerIndex, float t) {
   float curve = max(EPS, meta2.z);
   float shaped = pow(clamp01(t), curve);
   float intensity = clamp(mix(startIntensity, endIntensity, shaped), 0.0, 1.0);
-  float multiplier = 1.0 - intensity;
-  return vec4(color.rgb * multiplier, color.a);
+  if (intensity <= 0.0) {
+    return color;
+  }
+
+  vec4 shadow = uLayerShadow[layerIndex];
+  float modeCode = floor((shadow.w + 0.5) / 3.0);
+  float spaceCode = shadow.w - modeCode * 3.0;
+  vec3 target = color.rgb * shadow.rgb;
+  if (modeCode > 1.5) {
+    target = color.rgb + shadow.rgb - color.rgb * shadow.rgb;
+  } else if (modeCode > 0.5) {
+    target = shadow.rgb;
+  }
+
+  if (spaceCode > 1.5) {
+    vec3 lab = mix(linearToOklab(color.rgb), linearToOklab(target), intensity);
+    return vec4(uSrgbToOutput * oklabToLinearSrgb(lab), color.a);
+  }
+  if (spaceCode > 0.5) {
+    return vec4(srgbToLinear(mix(linearToSrgb(color.rgb), linearToSrgb(target), intensity)), color.a);
+  }
+  return vec4(mix(color.rgb, target, intensity), color.a);
 }
 
 float perceptualGrainScale(vec4 color) {
-  float luminance = max(0.0001, 0.2126 * color.r + 0.7152 * color.g + 0.0722 * color.b);
+  float luminance = max(0.0001, dot(uLuminanceWeights, color.rgb));
   return min(1.0, sqrt(luminance / 0.18));
 }
 
@@ -378,48 +1634,200 @@ vec4 applyGrain(vec4 color, vec2 designPx, vec4 grain) {
   return clampLinearColor(vec4(color.r + nr, color.g + ng, color.b + nb, color.a));
 }
 
+float hardLight(float destination, float source) {
+  return source <= 0.5
+    ? destination * 2.0 * source
+    : 1.0 - (1.0 - destination) * (2.0 - 2.0 * source);
+}
+
+float softLight(float destination, float source) {
+  if (source <= 0.5) {
+    return destination - (1.0 - 2.0 * source) * destination * (1.0 - destination);
+  }
+
+  float lifted = destination <= 0.25
+    ? ((16.0 * destination - 12.0) * destination + 4.0) * destination
+    : sqrt(destination);
+  return destination + (2.0 * source - 1.0) * (lifted - destination);
+}
+
+// Codes follow BLEND_MODE_CODES.
 float blendChannel(float destination, float source, float blendModeCode) {
   if (blendModeCode < 0.5) {
     return source;
   }
-
   if (blendModeCode < 1.5) {
     return min(1.0, destination + source);
   }
-
   if (blendModeCode < 2.5) {
     return destination * source;
   }
+  if (blendModeCode < 3.5) {
+    return 1.0 - (1.0 - destination) * (1.0 - source);
+  }
+  if (blendModeCode < 4.5) {
+    return hardLight(source, destination);
+  }
+  if (blendModeCode < 5.5) {
+    return min(destination, source);
+  }
+  if (blendModeCode < 6.5) {
+    return max(destination, source);
+  }
+  if (blendModeCode < 7.5) {
+    if (destination <= 0.0) {
+      return 0.0;
+    }
+    return source >= 1.0 ? 1.0 : min(1.0, destination / (1.0 - source));
+  }
+  if (blendModeCode < 8.5) {
+    if (destination >= 1.0) {
+      return 1.0;
+    }
+    return source <= 0.0 ? 0.0 : 1.0 - min(1.0, (1.0 - destination) / source);
+  }
+  if (blendModeCode < 9.5) {
+    return hardLight(destination, source);
+  }
+  if (blendModeCode < 10.5) {
+    return softLight(destination, source);
+  }
+  if (blendModeCode < 11.5) {
+    return abs(destination - source);
+  }
+  return destination + source - 2.0 * destination * source;
+}
 
-  return 1.0 - (1.0 - destination) * (1.0 - source);
+float blendLuminosity(vec3 color) {
+  return dot(color, vec3(0.3, 0.59, 0.11));
 }
 
-vec4 compositeLinear(vec4 destination, vec4 source, float blendModeCode) {
+float blendSaturation(vec3 color) {
+  return max(max(color.r, color.g), color.b) - min(min(color.r, color.g), color.b);
+}
+
+vec3 withLuminosity(vec3 color, float lum) {
+  vec3 shifted = color + (lum - blendLuminosity(color));
+  float l = blendLuminosity(shifted);
+  float low = min(min(shifted.r, shifted.g), shifted.b);
+  float high = max(max(shifted.r, shifted.g), shifted.b);
+  float scale = (low < 0.0 ? l / (l - low) : 1.0) * (high > 1.0 ? (1.0 - l) / (high - l) : 1.0);
+  return l + (shifted - l) * scale;
+}
+
+vec3 withSaturation(vec3 color, float sat) {
+  float low = min(min(color.r, color.g), color.b);
+  float range = max(max(color.r, color.g), color.b) - low;
+  return range > 0.0 ? (color - low) * sat / range : vec3(0.0);
+}
+
+// Mirrors blendColor on the CPU; codes 13-16 are the non-separable modes.
+vec3 blendColor(vec3 destination, vec3 source, float blendModeCode) {
+  if (blendModeCode > 15.5) {
+    return withLuminosity(destination, blendLuminosity(source));
+  }
+  if (blendModeCode > 14.5) {
+    return withLuminosity(source, blendLuminosity(destination));
+  }
+  if (blendModeCode > 13.5) {
+    return withLuminosity(
+      withSaturation(destination, blendSaturation(source)),
+      blendLuminosity(destination)
+    );
+  }
+  if (blendModeCode > 12.5) {
+    return withLuminosity(
+      withSaturation(source, blendSaturation(destination)),
+      blendLuminosity(destination)
+    );
+  }
+
+  return vec3(
+    blendChannel(destination.r, source.r, blendModeCode),
+    blendChannel(destination.g, source.g, blendModeCode),
+    blendChannel(destination.b, source.b, blendModeCode)
+  );
+}
+
+// Mirrors compositeLinear on the CPU: W3C source-over for straight alpha.
+// Composite space codes: 0 linear, 1 srgb (blend and mix encoded channels),
+// 2 oklab (mix by opacity in Oklab).
+vec4 compositeLinear(vec4 destination, vec4 source, float blendModeCode, float compositeSpaceCode) {
   float alpha = clamp01(source.a);
   if (alpha <= 0.0) {
     return destination;
   }
 
-  float blendedR = blendChannel(destination.r, source.r, blendModeCode);
-  float blendedG = blendChannel(destination.g, source.g, blendModeCode);
-  float blendedB = blendChannel(destination.b, source.b, blendModeCode);
+  float backdropAlpha = clamp01(destination.a);
+  float outAlpha = alpha + backdropAlpha * (1.0 - alpha);
+  float weight = alpha / outAlpha;
+  if (compositeSpaceCode > 0.5 && compositeSpaceCode < 1.5) {
+    vec3 backdrop = linearToSrgb(destination.rgb);
+    vec3 color = linearToSrgb(source.rgb);
+    vec3 blended = mix(color, blendColor(backdrop, color, blendModeCode), backdropAlpha);
+    return clampLinearColor(vec4(srgbToLinear(mix(backdrop, blended, weight)), outAlpha));
+  }
 
-  vec4 outColor = vec4(
-    destination.r * (1.0 - alpha) + blendedR * alpha,
-    destination.g * (1.0 - alpha) + blendedG * alpha,
-    destination.b * (1.0 - alpha) + blendedB * alpha,
-    alpha + destination.a * (1.0 - alpha)
+  vec3 blended = mix(
+    source.rgb,
+    blendColor(destination.rgb, source.rgb, blendModeCode),
+    backdropAlpha
   );
+  if (compositeSpaceCode > 1.5) {
+    vec3 lab = mix(linearToOklab(destination.rgb), linearToOklab(blended), weight);
+    return clampLinearColor(vec4(uSrgbToOutput * oklabToLinearSrgb(lab), outAlpha));
+  }
+
+  return clampLinearColor(vec4(mix(destination.rgb, blended, weight), outAlpha));
+}
+
+// Unpacks a mask slot as (source layer, field, operation, invert).
+vec4 getLayerMask(int layerIndex, int slot) {
+  vec4 masks = uLayerMasks[layerIndex];
+  vec2 layerMask = slot == 0 ? masks.xy : masks.zw;
+  float fieldCode = floor((layerMask.y + 0.5) / 6.0);
+  float rest = layerMask.y - fieldCode * 6.0;
+  float operationCode = floor((rest + 0.5) / 2.0);
+  return vec4(layerMask.x, fieldCode, operationCode, rest - operationCode * 2.0);
+}
+
+// Mirrors applyLayerMasks on the CPU, one mask at a time.
+float combineLayerMask(float mask, float field, vec4 layerMask) {
+  float value = layerMask.w > 0.5 ? 1.0 - clamp01(field) : clamp01(field);
+  if (layerMask.z > 1.5) {
+    return max(0.0, mask - value);
+  }
+  if (layerMask.z > 0.5) {
+    return min(mask, value);
+  }
+  return mask * value;
+}
+
+// Unpacks a group as (opacity, blend mode, composite space, has mask).
+vec4 getGroup(float groupIndex) {
+  float slot = floor((groupIndex + 0.5) / 2.0);
+  for (int i = 0; i < MAX_GROUP_VECTORS; i++) {
+    if (abs(float(i) - slot) < 0.5) {
+      vec4 pair = uGroup[i];
+      vec2 group = groupIndex - slot * 2.0 > 0.5 ? pair.zw : pair.xy;
+      float blendModeCode = floor((group.y + 0.5) / 6.0);
+      float rest = group.y - blendModeCode * 6.0;
+      float spaceCode = floor((rest + 0.5) / 2.0);
+      return vec4(group.x, blendModeCode, spaceCode, rest - spaceCode * 2.0);
+    }
+  }
+  return vec4(0.0);
+}
 
-  return clampLinearColor(outColor);
+// Mirrors closeGroup on the CPU: composites a group's isolated buffer onto
+// the buffer below it.
+vec4 compositeGroup(vec4 isolated, vec4 below, float groupIndex, float groupMask) {
+  vec4 group = getGroup(groupIndex);
+  return compositeLinear(below, vec4(isolated.rgb, isolated.a * group.x * groupMask), group.y, group.z);
 }
 
 float linearToSrgb8(float linearChannel) {
-  float c = clamp01(linearChannel);
-  float s = c <= 0.0031308
-    ? 12.92 * c
-    : 1.055 * pow(c, 1.0 / 2.4) - 0.055;
-  return s * 255.0;
+  return linearChannelToSrgb(linearChannel) * 255.0;
 }
 
 float sampleBlueNoise(vec2 physicalPx) {
@@ -458,21 +1866,114 @@ void main() {
   vec2 designPx = physicalPx * scale;
 
   vec4 accumulated = uBaseColor;
+  if (uBaseImage.w > -0.5) {
+    float inside;
+    vec4 baseImage = sampleImage(uBaseImage, designPx, inside);
+    if (inside > 0.5) {
+      accumulated = compositeLinear(
+        accumulated,
+        unpremultiplyImage(baseImage),
+        0.0,
+        uCompositeSpace
+      );
+    }
+  }
+
+  // Open groups draw into transparent buffers; belowN is the buffer the
+  // group at depth N is composited onto when it closes.
+  int depth = 0;
+  float nextGroup = 0.0;
+  vec4 below1 = vec4(0.0);
+  vec4 below2 = vec4(0.0);
+  float group1 = 0.0;
+  float group2 = 0.0;
+  float groupMask1 = 1.0;
+  float groupMask2 = 1.0;
+
+  // Per-layer fields that later layers can mask with.
+  float fieldAlpha[MAX_LAYERS];
+  float fieldProgress[MAX_LAYERS];
+  float fieldCoverage[MAX_LAYERS];
+  for (int i = 0; i < MAX_LAYERS; i++) {
+    fieldAlpha[i] = 0.0;
+    fieldProgress[i] = 0.0;
+    fieldCoverage[i] = 0.0;
+  }
 
   for (int layerIndex = 0; layerIndex < MAX_LAYERS; layerIndex++) {
     if (layerIndex >= uLayerCount) {
       break;
     }
 
-    vec2 progress = sampleLayerProgress(layerIndex, designPx);
-    float t = progress.x;
-    float mask = progress.y;
+    vec4 composite = uLayerComposite[layerIndex];
+    for (int k = 0; k < MAX_GROUP_DEPTH; k++) {
+      if (float(k) < composite.y) {
+        if (depth == 2) {
+          accumulated = compositeGroup(accumulated, below2, group2, groupMask2);
+        } else {
+          accumulated = compositeGroup(accumulated, below1, group1, groupMask1);
+        }
+        depth--;
+      }
+    }
+    for (int k = 0; k < MAX_GROUP_DEPTH; k++) {
+      if (float(k) < composite.z) {
+        // Masked groups stay hidden unless their mask layer covers the pixel.
+        float unmasked = 1.0 - getGroup(nextGroup).w;
+        if (depth == 0) {
+          below1 = accumulated;
+          group1 = nextGroup;
+          groupMask1 = unmasked;
+        } else {
+          below2 = accumulated;
+          group2 = nextGroup;
+          groupMask2 = unmasked;
+        }
+        accumulated = vec4(0.0);
+        depth++;
+        nextGroup += 1.0;
+      }
+    }
+
+    float t = 0.0;
+    float mask = 0.0;
+    vec4 interpolated;
+    float layerType = uLayerMeta1[layerIndex].x;
+    if (layerType > 10.5) {
+      interpolated = sampleImageLayer(layerIndex, designPx, t, mask);
+    } else if (layerType > 4.5 && layerType < 5.5) {
+      interpolated = sampleFreeformLayer(layerIndex, designPx, t, mask);
+    } else if (layerType > 3.5 && layerType < 4.5) {
+      interpolated = sampleMeshLayer(layerIndex, designPx, t, mask);
+    } else {
+      interpolated = sampleGradientLayer(layerIndex, designPx, scale, t, mask);
+    }
+    if (mask <= 0.0) {
+      continue;
+    }
+
+    fieldAlpha[layerIndex] = interpolated.a * mask;
+    fieldProgress[layerIndex] = t;
+    for (int m = 0; m < MAX_LAYER_MASKS; m++) {
+      vec4 layerMask = getLayerMask(layerIndex, m);
+      if (layerMask.x < -0.5) {
+        continue;
+      }
+      float field = 0.0;
+      for (int i = 0; i < MAX_LAYERS; i++) {
+        if (abs(float(i) - layerMask.x) < 0.5) {
+          field = layerMask.y > 1.5
+            ? fieldCoverage[i]
+            : (layerMask.y > 0.5 ? fieldProgress[i] : fieldAlpha[i]);
+        }
+      }
+      mask = combineLayerMask(mask, field, layerMask);
+    }
     if (mask <= 0.0) {
       continue;
     }
 
-    int colorSpaceCode = int(uLayerMeta1[layerIndex].z + 0.5);
-    vec4 sampled = sampleStops(layerIndex, t, colorSpaceCode);
+    vec4 sampled = resolveGamut(interpolated, uLayerMeta3[layerIndex].y);
     sampled = applyShadow(sampled, layerIndex, t);
     sampled = applyGrain(sampled, designPx, uLayerGrain[layerIndex]);
 
@@ -481,9 +1982,31 @@ void main() {
     if (alpha <= 0.0) {
       continue;
     }
+    fieldCoverage[layerIndex] = alpha;
+    if (composite.w > 0.5) {
+      if (depth == 2) {
+        groupMask2 = alpha;
+      } else {
+        groupMask1 = alpha;
+      }
+      continue;
+    }
 
     vec4 source = vec4(sampled.rgb, alpha);
-    accumulated = compositeLinear(accumulated, source, uLayerMeta1[layerIndex].y);
+    accumulated = compositeLinear(
+      accumulated,
+      source,
+      uLayerMeta1[layerIndex].y,
+      composite.x
+    );
+  }
+
+  if (depth == 2) {
+    accumulated = compositeGroup(accumulated, below2, group2, groupMask2);
+    depth = 1;
+  }
+  if (depth == 1) {
+    accumulated = compositeGroup(accumulated, below1, group1, groupMask1);
   }
 
   accumulated = clampLinearColor(accumulated);
@@ -522,26 +2045,49 @@ void main() {
 }
 `;
 
-interface PackedLayerUniforms {
+export interface PackedLayerUniforms {
   layerMeta1: Float32Array;
   layerMeta2: Float32Array;
-  layerLinear1: Float32Array;
-  layerLinear2: Float32Array;
-  layerLinear3: Float32Array;
-  layerRadial1: Float32Array;
-  layerRadial2: Float32Array;
-  layerBox1: Float32Array;
-  layerBox2: Float32Array;
+  layerShadow: Float32Array;
+  layerMeta3: Float32Array;
+  /**
+   * Type-specific parameters, one to four vectors per layer. The first
+   * vector of shape, blob, stroke, mesh and freeform layers is written by
+   * packShapeData, packMeshData and packFreeformPoints.
+   * - linear: (mode, startX, startY, length), (direction, center), (half length, easing)
+   * - radial: (center, radii), (inner, outer, falloff, power), (focus x, y, radius, has focus)
+   * - conic: (center, start angle, sweep)
+   * - noise: (scale, octaves, lacunarity, gain), (seed offset)
+   * - box: (x, y, width, height), (rotation, spread, blur, inset), corner radii
+   * - shape, blob: (texture row, texel count, blob k), (unused, spread, blur, inset)
+   * - stroke: (texture row, texel count, width, blur)
+   * - mesh: (first patch row, patch count, control point rows)
+   * - freeform: (first point, point count, weighting, power)
+   * - image: (x, y, scale, texture slot)
+   * - pattern: the fade's first two radial vectors, (kind, spacing, size, fade), (origin)
+   */
+  layerParams1: Float32Array;
+  layerParams2: Float32Array;
+  layerParams3: Float32Array;
+  layerParams4: Float32Array;
+  layerTransform1: Float32Array;
+  layerTransform2: Float32Array;
+  layerWarp: Float32Array;
   layerGrain: Float32Array;
+  layerComposite: Float32Array;
+  /** Two groups per vector: opacity, then blend, composite space and mask packed. */
+  groupParams: Float32Array;
+  /** Both mask slots: source layer, then field, operation and invert packed. */
+  layerMasks: Float32Array;
   stopPos: Float32Array;
   stopColor0: Float32Array;
   stopColor1: Float32Array;
   stopColor2: Float32Array;
   stopColor3: Float32Array;
-  stopLab0: Float32Array;
-  stopLab1: Float32Array;
-  stopLab2: Float32Array;
-  stopLab3: Float32Array;
+  stopCoords0: Float32Array;
+  stopCoords1: Float32Array;
+  stopCoords2: Float32Array;
+  stopCoords3: Float32Array;
 }
 
 function getLayerTypeCode(layer: PreparedLayer): number {
@@ -551,24 +2097,156 @@ function getLayerTypeCode(layer: PreparedLayer): number {
   if (layer.layer.type === "radial") {
     return 1;
   }
+  if (layer.layer.type === "conic") {
+    return 3;
+  }
+  if (layer.layer.type === "mesh") {
+    return 4;
+  }
+  if (layer.layer.type === "freeform") {
+    return 5;
+  }
+  if (layer.layer.type === "noise") {
+    return 6;
+  }
+  if (layer.layer.type === "shape") {
+    return 7;
+  }
+  if (layer.layer.type === "blob") {
+    return 8;
+  }
+  if (layer.layer.type === "stroke") {
+    return 9;
+  }
+  if (layer.layer.type === "pattern") {
+    return 10;
+  }
+  if (layer.layer.type === "image") {
+    return 11;
+  }
   return 2;
 }
 
-function getBlendModeCode(blendMode: BackgroundBlendMode): number {
-  if (blendMode === "add") {
+function getPatternKindCode(pattern: BackgroundPatternKind): number {
+  if (pattern === "grid") {
     return 1;
   }
-  if (blendMode === "multiply") {
+  if (pattern === "stripes") {
     return 2;
   }
-  if (blendMode === "screen") {
+  if (pattern === "checker") {
     return 3;
   }
   return 0;
 }
 
+const BLEND_MODE_CODES: Record<BackgroundBlendMode, number> = {
+  normal: 0,
+  add: 1,
+  multiply: 2,
+  screen: 3,
+  overlay: 4,
+  darken: 5,
+  lighten: 6,
+  "color-dodge": 7,
+  "color-burn": 8,
+  "hard-light": 9,
+  "soft-light": 10,
+  difference: 11,
+  exclusion: 12,
+  hue: 13,
+  saturation: 14,
+  color: 15,
+  luminosity: 16,
+};
+
+function getBlendModeCode(blendMode: BackgroundBlendMode): number {
+  return BLEND_MODE_CODES[blendMode] ?? 0;
+}
+
+const COMPOSITE_SPACE_CODES: Record<BackgroundCompositeSpace, number> = {
+  linear: 0,
+  srgb: 1,
+  oklab: 2,
+};
+
+const SHADOW_MODE_CODES: Record<BackgroundShadowMode, number> = {
+  darken: 0,
+  tint: 1,
+  lighten: 2,
+};
+
+const MASK_SOURCE_CODES: Record<PreparedLayerMask["source"], number> = {
+  alpha: 0,
+  progress: 1,
+  coverage: 2,
+};
+
+const MASK_OPERATION_CODES: Record<BackgroundMaskOperation, number> = {
+  multiply: 0,
+  intersect: 1,
+  subtract: 2,
+};
+
+const COLOR_SPACE_CODES: Record<BackgroundColorSpace, number> = {
+  "linear-srgb": 0,
+  oklab: 1,
+  oklch: 2,
+  srgb: 3,
+  lab: 4,
+  lch: 5,
+  xyz: 6,
+  hsl: 7,
+  hwb: 8,
+};
+
 function getColorSpaceCode(colorSpace: BackgroundColorSpace): number {
-  return colorSpace === "oklab" ? 1 : 0;
+  return COLOR_SPACE_CODES[colorSpace];
+}
+
+/**
+ * The shader expects polar coordinates hue-last, with a negative hue marking
+ * a powerless one, so hsl/hwb `[H, S, L]` is packed as `(S, L, H)`.
+ */
+function packStopCoords(
+  coords: ColorTriplet,
+  colorSpace: BackgroundColorSpace,
+): ColorTriplet {
+  const hueIndex = getHueComponentIndex(colorSpace);
+  if (hueIndex < 0) {
+    return coords;
+  }
+
+  const hue = Number.isNaN(coords[hueIndex]) ? -1 : coords[hueIndex];
+  return hueIndex === 0 ? [coords[1], coords[2], hue] : [coords[0], coords[1], hue];
+}
+
+function getHueInterpolationCode(method: BackgroundHueInterpolation): number {
+  if (method === "longer") {
+    return 1;
+  }
+  if (method === "increasing") {
+    return 2;
+  }
+  if (method === "decreasing") {
+    return 3;
+  }
+  return 0;
+}
+
+function getSpreadMethodCode(method: BackgroundSpreadMethod): number {
+  if (method === "repeat") {
+    return 1;
+  }
+  if (method === "reflect") {
+    return 2;
+  }
+  return 0;
+}
+
+function setVec2(target: Float32Array, index: number, x: number, y: number): void {
+  target[index * 2] = x;
+  target[index * 2 + 1] = y;
 }
 
 function setVec4(
@@ -607,7 +2285,39 @@ function canRenderResolvedWithWebGL(
     };
   }
 
+  if (resolved.groups.length > MAX_GROUPS) {
+    return {
+      supported: false,
+      reason: `WebGL renderer supports up to ${MAX_GROUPS} groups, received ${resolved.groups.length}.`,
+    };
+  }
+
+  const groupDepth = Math.max(0, ...resolved.layers.map(({ groups }) => groups.length));
+  if (groupDepth > MAX_GROUP_DEPTH) {
+    return {
+      supported: false,
+      reason: `WebGL renderer supports groups nested up to ${MAX_GROUP_DEPTH} deep, received ${groupDepth}.`,
+    };
+  }
+
+  const imageCount =
+    (resolved.baseImage ? 1 : 0) + resolved.layers.filter(({ image }) => image).length;
+  if (imageCount > MAX_IMAGES) {
+    return {
+      supported: false,
+      reason: `WebGL renderer supports up to ${MAX_IMAGES} images including the base image, received ${imageCount}.`,
+    };
+  }
+
   for (let i = 0; i < resolved.layers.length; i++) {
+    const maskCount = resolved.layers[i].masks.length;
+    if (maskCount > MAX_LAYER_MASKS) {
+      return {
+        supported: false,
+        reason: `WebGL renderer supports up to ${MAX_LAYER_MASKS} masks per layer including the clip, layer ${i} has ${maskCount}.`,
+      };
+    }
+
     const stopCount = resolved.layers[i].stops.length;
     if (stopCount > MAX_STOPS) {
       return {
@@ -615,6 +2325,48 @@ function canRenderResolvedWithWebGL(
         reason: `WebGL renderer supports up to ${MAX_STOPS} stops per layer, layer ${i} has ${stopCount}.`,
       };
     }
+
+    const { layer } = resolved.layers[i];
+    // Segment counts do not depend on the canvas size.
+    const segmentCount =
+      layer.type === "shape"
+        ? buildShapeSegments(layer, 1, 1).length
+        : layer.type === "stroke"
+          ? resolveStrokeSegments(layer).length
+          : 0;
+    if (segmentCount > MAX_SHAPE_SEGMENTS) {
+      return {
+        supported: false,
+        reason: `WebGL renderer supports up to ${MAX_SHAPE_SEGMENTS} shape segments per layer, layer ${i} has ${segmentCount}.`,
+      };
+    }
+
+    const blobCount = layer.type === "blob" ? layer.blobs.length : 0;
+    if (blobCount > MAX_BLOBS) {
+      return {
+        supported: false,
+        reason: `WebGL renderer supports up to ${MAX_BLOBS} blobs per layer, layer ${i} has ${blobCount}.`,
+      };
+    }
+
+    const patchCount = resolved.layers[i].mesh?.patches.length ?? 0;
+    if (patchCount > MAX_MESH_PATCHES) {
+      return {
+        supported: false,
+        reason: `WebGL renderer supports up to ${MAX_MESH_PATCHES} mesh patches per layer, layer ${i} has ${patchCount}.`,
+      };
+    }
+  }
+
+  const freeformPointCount = resolved.layers.reduce(
+    (count, layer) => count + (layer.freeform?.length ?? 0),
+    0,
+  );
+  if (freeformPointCount > MAX_FREEFORM_POINTS) {
+    return {
+      supported: false,
+      reason: `WebGL renderer supports up to ${MAX_FREEFORM_POINTS} freeform points across all layers, received ${freeformPointCount}.`,
+    };
   }
 
   return { supported: true };
@@ -627,33 +2379,238 @@ export function canRenderBackgroundWithWebGL(
   return canRenderResolvedWithWebGL(resolved);
 }
 
-function packLayerUniforms(
+interface PackedMeshData {
+  /** RGBA float texels, MESH_TEXELS_PER_PATCH per patch row. */
+  data: Float32Array;
+  patchCount: number;
+}
+
+/**
+ * Mesh patches as rows of a float texture: texels 0–3 hold the top and
+ * bottom curves, 4–5 the inner handles of the left and right curves, 6 the
+ * bounds, 7 the patch row, and 8–11 the corner colors (top-left, top-right,
+ * bottom-left, bottom-right) as packed coords with alpha. Each mesh layer's
+ * first patch row, patch count and control point rows go into `layerParams`.
+ */
+function packMeshData(
+  resolved: ResolvedBackgroundArgs,
+  layerParams: Float32Array,
+): PackedMeshData {
+  const patchCount = resolved.layers.reduce(
+    (count, layer) => count + (layer.mesh?.patches.length ?? 0),
+    0,
+  );
+  const data = new Float32Array(Math.max(1, patchCount) * MESH_TEXELS_PER_PATCH * 4);
+
+  const setTexel = (patchRow: number, texel: number, values: number[]) => {
+    data.set(values, (patchRow * MESH_TEXELS_PER_PATCH + texel) * 4);
+  };
+  const curvePoints = (curve: MeshCurve, from: number) => [
+    ...curve[from],
+    ...curve[from + 1],
+  ];
+
+  let patchRow = 0;
+  resolved.layers.forEach((layer, layerIndex) => {
+    const { mesh } = layer;
+    if (!mesh) {
+      return;
+    }
+
+    setVec4(layerParams, layerIndex, patchRow, mesh.patches.length, mesh.colors.length, 0);
+
+    for (const patch of mesh.patches) {
+      setTexel(patchRow, 0, curvePoints(patch.top, 0));
+      setTexel(patchRow, 1, curvePoints(patch.top, 2));
+      setTexel(patchRow, 2, curvePoints(patch.bottom, 0));
+      setTexel(patchRow, 3, curvePoints(patch.bottom, 2));
+      setTexel(patchRow, 4, curvePoints(patch.left, 1));
+      setTexel(patchRow, 5, curvePoints(patch.right, 1));
+      setTexel(patchRow, 6, patch.bounds);
+      setTexel(patchRow, 7, [patch.row, patch.column, 0, 0]);
+
+      const { row, column } = patch;
+      const corners = [
+        mesh.colors[row][column],
+        mesh.colors[row][column + 1],
+        mesh.colors[row + 1][column],
+        mesh.colors[row + 1][column + 1],
+      ];
+      corners.forEach((corner, index) => {
+        setTexel(patchRow, 8 + index, [
+          ...packStopCoords(corner.coords, layer.colorSpace),
+          corner.alpha,
+        ]);
+      });
+
+      patchRow++;
+    }
+  });
+
+  return { data, patchCount };
+}
+
+interface PackedFreeformPoints {
+  /** Per point: x, y, radius, unused. */
+  points: Float32Array;
+  /** Per point: Oklab coords, alpha. */
+  colors: Float32Array;
+}
+
+/**
+ * Writes each freeform layer's first point, point count, weighting
+ * (0 inverse-distance, 1 radial-basis) and power into `layerParams`.
+ */
+function packFreeformPoints(
+  resolved: ResolvedBackgroundArgs,
+  layerParams: Float32Array,
+  designWidth: number,
+  designHeight: number,
+): PackedFreeformPoints {
+  const points = new Float32Array(MAX_FREEFORM_POINTS * 4);
+  const colors = new Float32Array(MAX_FREEFORM_POINTS * 4);
+
+  let first = 0;
+  resolved.layers.forEach((layer, layerIndex) => {
+    const { freeform: pointColors } = layer;
+    if (layer.layer.type !== "freeform" || !pointColors) {
+      return;
+    }
+
+    const freeform = layer.layer;
+    setVec4(
+      layerParams,
+      layerIndex,
+      first,
+      freeform.points.length,
+      freeform.weighting === "radial-basis" ? 1 : 0,
+      Math.max(0, freeform.power ?? 2),
+    );
+
+    freeform.points.forEach((point, index) => {
+      setVec4(
+        points,
+        first + index,
+        point.x,
+        point.y,
+        resolveFreeformRadius(point, designWidth, designHeight),
+        0,
+      );
+      const { coords, alpha } = pointColors[index];
+      setVec4(colors, first + index, coords[0], coords[1], coords[2], alpha);
+    });
+    first += freeform.points.length;
+  });
+
+  return { points, colors };
+}
+
+interface PackedShapeData {
+  /** RGBA float texels, one row per shape, blob or stroke layer: segments as
+   *  (x0, y0, x1, y1), blobs as (x, y, radiusX, radiusY). */
+  data: Float32Array;
+  width: number;
+  rows: number;
+}
+
+/**
+ * Writes each shape, blob and stroke layer's texture row, texel count, then
+ * blob k or stroke width and blur into `layerParams`.
+ */
+function packShapeData(
+  resolved: ResolvedBackgroundArgs,
+  layerParams: Float32Array,
+  designWidth: number,
+  designHeight: number,
+): PackedShapeData {
+  const outlines = resolved.layers.map(({ layer }) => {
+    if (layer.type === "shape") {
+      return resolveShapeSegments(layer, designWidth, designHeight);
+    }
+    if (layer.type === "stroke") {
+      return resolveStrokeSegments(layer);
+    }
+    if (layer.type === "blob") {
+      const offsetX = layer.offsetX ?? 0;
+      const offsetY = layer.offsetY ?? 0;
+      return layer.blobs.map((blob) => [
+        blob.x + offsetX,
+        blob.y + offsetY,
+        blob.radiusX,
+        blob.radiusY ?? blob.radiusX,
+      ]);
+    }
+    return null;
+  });
+  const width = Math.max(1, ...outlines.map((texels) => texels?.length ?? 0));
+  const rows = outlines.filter(Boolean).length;
+  const data = new Float32Array(width * Math.max(1, rows) * 4);
+
+  let row = 0;
+  outlines.forEach((texels, layerIndex) => {
+    if (!texels) {
+      return;
+    }
+
+    const { layer } = resolved.layers[layerIndex];
+    if (layer.type === "stroke") {
+      setVec4(
+        layerParams,
+        layerIndex,
+        row,
+        texels.length,
+        layer.width ?? DEFAULT_STROKE_WIDTH,
+        layer.blur ?? 0,
+      );
+    } else {
+      const k = layer.type === "blob" ? Math.max(0, layer.k ?? DEFAULT_BLOB_K) : 0;
+      setVec4(layerParams, layerIndex, row, texels.length, k, 0);
+    }
+    texels.forEach((texel, index) => {
+      data.set(texel, (row * width + index) * 4);
+    });
+    row++;
+  });
+
+  return { data, width, rows };
+}
+
+/** Exported for the shader parity tests. */
+export function packLayerUniforms(
   resolved: ResolvedBackgroundArgs,
   designWidth: number,
   designHeight: number,
 ): PackedLayerUniforms {
   const layerMeta1 = new Float32Array(MAX_LAYERS * 4);
   const layerMeta2 = new Float32Array(MAX_LAYERS * 4);
-  const layerLinear1 = new Float32Array(MAX_LAYERS * 4);
-  const layerLinear2 = new Float32Array(MAX_LAYERS * 4);
-  const layerLinear3 = new Float32Array(MAX_LAYERS * 4);
-  const layerRadial1 = new Float32Array(MAX_LAYERS * 4);
-  const layerRadial2 = new Float32Array(MAX_LAYERS * 4);
-  const layerBox1 = new Float32Array(MAX_LAYERS * 4);
-  const layerBox2 = new Float32Array(MAX_LAYERS * 4);
+  const layerShadow = new Float32Array(MAX_LAYERS * 4);
+  const layerMeta3 = new Float32Array(MAX_LAYERS * 4);
+  const layerParams1 = new Float32Array(MAX_LAYERS * 4);
+  const layerParams2 = new Float32Array(MAX_LAYERS * 4);
+  const layerParams3 = new Float32Array(MAX_LAYERS * 4);
+  const layerParams4 = new Float32Array(MAX_LAYERS * 4);
+  const layerTransform1 = new Float32Array(MAX_LAYERS * 4);
+  const layerTransform2 = new Float32Array(MAX_LAYERS * 4);
+  const layerWarp = new Float32Array(MAX_LAYERS * 4);
   const layerGrain = new Float32Array(MAX_LAYERS * 4);
+  const layerComposite = new Float32Array(MAX_LAYERS * 4);
+  const groupParams = new Float32Array(MAX_GROUP_VECTORS * 4);
+  const layerMasks = new Float32Array(MAX_LAYERS * 4);
+  let openedGroups = 0;
   const stopPos = new Float32Array(MAX_LAYERS * 4);
   const stopColor0 = new Float32Array(MAX_LAYERS * 4);
   const stopColor1 = new Float32Array(MAX_LAYERS * 4);
   const stopColor2 = new Float32Array(MAX_LAYERS * 4);
   const stopColor3 = new Float32Array(MAX_LAYERS * 4);
-  const stopLab0 = new Float32Array(MAX_LAYERS * 4);
-  const stopLab1 = new Float32Array(MAX_LAYERS * 4);
-  const stopLab2 = new Float32Array(MAX_LAYERS * 4);
-  const stopLab3 = new Float32Array(MAX_LAYERS * 4);
+  const stopCoords0 = new Float32Array(MAX_LAYERS * 4);
+  const stopCoords1 = new Float32Array(MAX_LAYERS * 4);
+  const stopCoords2 = new Float32Array(MAX_LAYERS * 4);
+  const stopCoords3 = new Float32Array(MAX_LAYERS * 4);
 
   const stopColorTargets = [stopColor0, stopColor1, stopColor2, stopColor3];
-  const stopLabTargets = [stopLab0, stopLab1, stopLab2, stopLab3];
+  const stopCoordsTargets = [stopCoords0, stopCoords1, stopCoords2, stopCoords3];
+  // Image layers take texture slots after the base image.
+  let imageSlot = resolved.baseImage ? 1 : 0;
 
   for (let layerIndex = 0; layerIndex < resolved.layers.length; layerIndex++) {
     const layer = resolved.layers[layerIndex];
@@ -678,6 +2635,54 @@ function packLayerUniforms(
       layer.shadow.curve,
       Math.min(MAX_STOPS, layer.stops.length),
     );
+    setVec4(
+      layerShadow,
+      layerIndex,
+      layer.shadow.color[0],
+      layer.shadow.color[1],
+      layer.shadow.color[2],
+      SHADOW_MODE_CODES[layer.shadow.mode] * 3 + COMPOSITE_SPACE_CODES[layer.shadow.space],
+    );
+
+    setVec4(
+      layerMeta3,
+      layerIndex,
+      getHueInterpolationCode(layer.hueInterpolation),
+      layer.gamutMapping === "css" ? 1 : 0,
+      layer.alphaInterpolation === "premultiplied" ? 1 : 0,
+      getSpreadMethodCode(layer.spreadMethod),
+    );
+
+    // Groups are flattened depth-first, so the previous layer's groups and
+    // this layer's share a prefix: close the rest, then open the new ones.
+    const previousGroups = resolved.layers[layerIndex - 1]?.groups ?? [];
+    let shared = 0;
+    while (shared < layer.groups.length && previousGroups[shared] === layer.groups[shared]) {
+      shared++;
+    }
+    for (const groupIndex of layer.groups.slice(shared)) {
+      const group = resolved.groups[groupIndex];
+      const code =
+        getBlendModeCode(group.blendMode) * 3 + COMPOSITE_SPACE_CODES[group.compositeSpace];
+      setVec2(groupParams, openedGroups++, group.opacity, code * 2 + (group.layer.mask ? 1 : 0));
+    }
+    for (let slot = 0; slot < MAX_LAYER_MASKS; slot++) {
+      const mask = layer.masks[slot];
+      if (!mask) {
+        setVec2(layerMasks, layerIndex * 2 + slot, -1, 0);
+        continue;
+      }
+      const code = MASK_SOURCE_CODES[mask.source] * 3 + MASK_OPERATION_CODES[mask.operation];
+      setVec2(layerMasks, layerIndex * 2 + slot, mask.layerIndex, code * 2 + (mask.invert ? 1 : 0));
+    }
+    setVec4(
+      layerComposite,
+      layerIndex,
+      COMPOSITE_SPACE_CODES[layer.compositeSpace],
+      previousGroups.length - shared,
+      layer.groups.length - shared,
+      layer.maskFor !== null ? 1 : 0,
+    );
 
     if (layer.grain) {
       setVec4(
@@ -690,6 +2695,33 @@ function packLayerUniforms(
       );
     }
 
+    const inverse = resolveLayerTransform(layer.layer.transform, designWidth, designHeight);
+    if (inverse) {
+      setVec4(layerTransform1, layerIndex, inverse[0], inverse[1], inverse[2], inverse[3]);
+    }
+
+    // The warp's octaves share the translation's vector.
+    const { warp } = layer.layer;
+    setVec4(
+      layerTransform2,
+      layerIndex,
+      inverse?.[4] ?? 0,
+      inverse?.[5] ?? 0,
+      inverse ? 1 : 0,
+      warp ? resolveNoiseOctaves(warp.octaves ?? 2) : 0,
+    );
+    if (warp) {
+      const [offsetX, offsetY] = resolveNoiseOffset(warp.seed ?? 0);
+      setVec4(
+        layerWarp,
+        layerIndex,
+        warp.amplitude ?? 40,
+        warp.frequency ?? 0.005,
+        offsetX,
+        offsetY,
+      );
+    }
+
     if (layer.layer.type === "linear") {
       const linear = layer.layer;
       const easing = Math.max(EPSILON, linear.easing ?? 1);
@@ -708,9 +2740,9 @@ function packLayerUniforms(
         const dirY = endY - startY;
         const lenSq = Math.max(EPSILON, dirX * dirX + dirY * dirY);
 
-        setVec4(layerLinear1, layerIndex, 1, startX, startY, lenSq);
-        setVec4(layerLinear2, layerIndex, dirX, dirY, 0, 0);
-        setVec4(layerLinear3, layerIndex, 0, easing, 0, 0);
+        setVec4(layerParams1, layerIndex, 1, startX, startY, lenSq);
+        setVec4(layerParams2, layerIndex, dirX, dirY, 0, 0);
+        setVec4(layerParams3, layerIndex, 0, easing, 0, 0);
       } else {
         const angle = linear.angle ?? 180;
         const rad = (angle * Math.PI) / 180;
@@ -722,21 +2754,37 @@ function packLayerUniforms(
         const safeLength = Math.max(EPSILON, gradientLength);
         const halfLength = safeLength / 2;
 
-        setVec4(layerLinear1, layerIndex, 0, 0, 0, safeLength);
+        setVec4(layerParams1, layerIndex, 0, 0, 0, safeLength);
         setVec4(
-          layerLinear2,
+          layerParams2,
           layerIndex,
           dirX,
           dirY,
           designWidth / 2,
           designHeight / 2,
         );
-        setVec4(layerLinear3, layerIndex, halfLength, easing, 0, 0);
+        setVec4(layerParams3, layerIndex, halfLength, easing, 0, 0);
+      }
+    } else if (layer.layer.type === "radial" || layer.layer.type === "pattern") {
+      const pattern = layer.layer.type === "pattern" ? layer.layer : null;
+      if (pattern) {
+        const spacing = Math.max(EPSILON, pattern.spacing ?? DEFAULT_PATTERN_SPACING);
+        setVec4(
+          layerParams3,
+          layerIndex,
+          getPatternKindCode(pattern.pattern),
+          spacing,
+          resolvePatternSize(pattern, spacing),
+          pattern.fade ? 1 : 0,
+        );
+        setVec4(layerParams4, layerIndex, pattern.offsetX ?? 0, pattern.offsetY ?? 0, 0, 0);
       }
-    } else if (layer.layer.type === "radial") {
-      const radial = layer.layer;
+
+      // A pattern's fade is a radial layer without stops of its own.
+      const radial: RadialGradientLayer =
+        layer.layer.type === "radial" ? layer.layer : { type: "radial", ...layer.layer.fade };
       setVec4(
-        layerRadial1,
+        layerParams1,
         layerIndex,
         radial.centerX ?? designWidth / 2,
         radial.centerY ?? designHeight / 2,
@@ -744,17 +2792,57 @@ function packLayerUniforms(
         Math.max(EPSILON, radial.radiusY ?? designHeight / 2),
       );
       setVec4(
-        layerRadial2,
+        layerParams2,
         layerIndex,
         radial.innerRadius ?? 0,
         radial.outerRadius ?? 1,
         Math.max(EPSILON, radial.falloff ?? 1),
         radial.power ?? 2,
       );
-    } else {
+
+      const focus = resolveRadialFocus(radial, designWidth, designHeight);
+      if (focus) {
+        setVec4(layerParams3, layerIndex, focus.x, focus.y, focus.radius, 1);
+      }
+    } else if (layer.layer.type === "conic") {
+      const conic = layer.layer;
+      setVec4(
+        layerParams1,
+        layerIndex,
+        conic.centerX ?? designWidth / 2,
+        conic.centerY ?? designHeight / 2,
+        conic.startAngle ?? 0,
+        Math.max(EPSILON, conic.sweep ?? 360),
+      );
+    } else if (layer.layer.type === "noise") {
+      const noise = layer.layer;
+      const [offsetX, offsetY] = resolveNoiseOffset(noise.seed ?? 0);
+      setVec4(
+        layerParams1,
+        layerIndex,
+        Math.max(1, noise.scale ?? Math.max(designWidth, designHeight) / 2),
+        resolveNoiseOctaves(noise.octaves),
+        Math.max(1, noise.lacunarity ?? 2),
+        Math.max(0, noise.gain ?? 0.5),
+      );
+      setVec4(layerParams2, layerIndex, offsetX, offsetY, 0, 0);
+    } else if (layer.layer.type === "shape" || layer.layer.type === "blob") {
+      const shape = layer.layer;
+      setVec4(
+        layerParams2,
+        layerIndex,
+        0,
+        shape.spread ?? 0,
+        Math.max(0, shape.blur ?? 0),
+        (shape.inset ?? true) ? 1 : 0,
+      );
+    } else if (layer.layer.type === "image" && layer.image) {
+      const placement = resolveImagePlacement(layer.image, layer.layer.fit, designWidth, designHeight);
+      setVec4(layerParams1, layerIndex, placement.x, placement.y, placement.scale, imageSlot++);
+    } else if (layer.layer.type === "box") {
       const box = layer.layer;
       setVec4(
-        layerBox1,
+        layerParams1,
         layerIndex,
         (box.x ?? 0) + (box.offsetX ?? 0),
         (box.y ?? 0) + (box.offsetY ?? 0),
@@ -762,13 +2850,17 @@ function packLayerUniforms(
         Math.max(1, box.height ?? designHeight),
       );
       setVec4(
-        layerBox2,
+        layerParams2,
         layerIndex,
-        box.radius ?? 0,
+        ((box.rotation ?? 0) * Math.PI) / 180,
         box.spread ?? 0,
         Math.max(0, box.blur ?? 0),
         (box.inset ?? true) ? 1 : 0,
       );
+      const radius = box.radius ?? 0;
+      const [topLeft, topRight, bottomRight, bottomLeft] =
+        typeof radius === "number" ? [radius, radius, radius, radius] : radius;
+      setVec4(layerParams3, layerIndex, topLeft, topRight, bottomRight, bottomLeft);
     }
 
     if (layer.stops.length === 0) {
@@ -792,12 +2884,13 @@ function packLayerUniforms(
         stop.color.a,
       );
 
+      const coords = packStopCoords(stop.coords, layer.colorSpace);
       setRgba(
-        stopLabTargets[stopSlot],
+        stopCoordsTargets[stopSlot],
         layerIndex,
-        stop.lab[0],
-        stop.lab[1],
-        stop.lab[2],
+        coords[0],
+        coords[1],
+        coords[2],
         stop.color.a,
       );
     }
@@ -815,23 +2908,28 @@ function packLayerUniforms(
   return {
     layerMeta1,
     layerMeta2,
-    layerLinear1,
-    layerLinear2,
-    layerLinear3,
-    layerRadial1,
-    layerRadial2,
-    layerBox1,
-    layerBox2,
+    layerShadow,
+    layerMeta3,
+    layerParams1,
+    layerParams2,
+    layerParams3,
+    layerParams4,
+    layerTransform1,
+    layerTransform2,
+    layerWarp,
     layerGrain,
+    layerComposite,
+    groupParams,
+    layerMasks,
     stopPos,
     stopColor0,
     stopColor1,
     stopColor2,
     stopColor3,
-    stopLab0,
-    stopLab1,
-    stopLab2,
-    stopLab3,
+    stopCoords0,
+    stopCoords1,
+    stopCoords2,
+    stopCoords3,
   };
 }
 
@@ -844,6 +2942,46 @@ function getArrayUniformLocation(
     gl.getUniformLocation(program, name);
 }
 
+// Samplers take texture units rather than uniform vectors.
+const UNIFORM_ROWS: Record<string, number> = {
+  float: 1,
+  int: 1,
+  vec2: 1,
+  vec3: 1,
+  vec4: 1,
+  mat3: 3,
+  sampler2D: 0,
+};
+
+/**
+ * Uniform vectors a shader declares, giving every float, vector and array
+ * element a row of its own: an upper bound on what the driver packs them into.
+ * Throws on a declaration it cannot size, so nothing is silently left out.
+ */
+function countUniformVectors(source: string): number {
+  const defines = new Map(
+    Array.from(source.matchAll(/^#define (\w+) (\d+)$/gm), ([, name, value]) => [name, Number(value)]),
+  );
+  let vectors = 0;
+  for (const [line] of source.matchAll(/^uniform .*$/gm)) {
+    const match = /^uniform (\w+) (\w+)(?:\[(\w+)\])?;$/.exec(line);
+    if (!match) {
+      throw new Error(`Cannot parse uniform declaration: ${line}`);
+    }
+    const [, type, , size] = match;
+    const rows = UNIFORM_ROWS[type];
+    const length = size === undefined ? 1 : (defines.get(size) ?? Number(size));
+    if (rows === undefined || !Number.isInteger(length) || length < 1) {
+      throw new Error(`Cannot size uniform declaration: ${line}`);
+    }
+    vectors += rows * length;
+  }
+  return vectors;
+}
+
+/** Exported for the uniform budget test. */
+export const FRAGMENT_UNIFORM_VECTORS = countUniformVectors(FRAGMENT_SHADER_SOURCE);
+
 function compileShader(
   gl: WebGLRenderingContext,
   shaderType: number,
@@ -908,6 +3046,25 @@ function createShaderProgram(
   return null;
 }
 
+/** Uploads RGBA float texels, sampled without filtering, to texture `unit`. */
+function createFloatTexture(
+  gl: WebGLRenderingContext,
+  unit: number,
+  width: number,
+  height: number,
+  data: Float32Array,
+): WebGLTexture | null {
+  const texture = gl.createTexture();
+  gl.activeTexture(unit);
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, gl.FLOAT, data);
+  return texture;
+}
+
 function createScratchCanvas(
   width: number,
   height: number,
@@ -932,6 +3089,34 @@ function ditherModeToCode(mode: ResolvedBackgroundArgs["ditherMode"]): number {
   return 2;
 }
 
+const IDENTITY_MATRIX3: Matrix3 = [
+  [1, 0, 0],
+  [0, 1, 0],
+  [0, 0, 1],
+];
+
+/** GLSL mat3 uniforms are column-major. */
+function toColumnMajor(matrix: Matrix3): Float32Array {
+  return new Float32Array([
+    matrix[0][0], matrix[1][0], matrix[2][0],
+    matrix[0][1], matrix[1][1], matrix[2][1],
+    matrix[0][2], matrix[1][2], matrix[2][2],
+  ]);
+}
+
+function getOutputMatrices(outputColorSpace: BackgroundOutputColorSpace): {
+  srgbToOutput: Matrix3;
+  outputToSrgb: Matrix3;
+} {
+  if (outputColorSpace === "display-p3") {
+    return {
+      srgbToOutput: LINEAR_SRGB_TO_LINEAR_P3,
+      outputToSrgb: LINEAR_P3_TO_LINEAR_SRGB,
+    };
+  }
+  return { srgbToOutput: IDENTITY_MATRIX3, outputToSrgb: IDENTITY_MATRIX3 };
+}
+
 export function renderBackgroundToCanvasWebGL(
   targetCanvas: HTMLCanvasElement,
   designWidth: number,
@@ -944,7 +3129,9 @@ export function renderBackgroundToCanvasWebGL(
     return false;
   }
 
-  const targetContext = targetCanvas.getContext("2d");
+  const targetContext = targetCanvas.getContext("2d", {
+    colorSpace: resolved.outputColorSpace,
+  });
   if (!targetContext) {
     return false;
   }
@@ -967,6 +3154,16 @@ export function renderBackgroundToCanvasWebGL(
     return false;
   }
 
+  if ("drawingBufferColorSpace" in gl) {
+    gl.drawingBufferColorSpace = resolved.outputColorSpace;
+  }
+
+  // The program would fail to link past the GPU's uniform budget.
+  const maxUniformVectors = gl.getParameter(gl.MAX_FRAGMENT_UNIFORM_VECTORS) as number;
+  if (maxUniformVectors < FRAGMENT_UNIFORM_VECTORS) {
+    return false;
+  }
+
   const shaderProgram = createShaderProgram(gl);
   if (!shaderProgram) {
     return false;
@@ -974,6 +3171,9 @@ export function renderBackgroundToCanvasWebGL(
 
   const { program, vertexShader, fragmentShader } = shaderProgram;
   const packed = packLayerUniforms(resolved, designWidth, designHeight);
+  const meshData = packMeshData(resolved, packed.layerParams1);
+  const freeformPoints = packFreeformPoints(resolved, packed.layerParams1, designWidth, designHeight);
+  const shapeData = packShapeData(resolved, packed.layerParams1, designWidth, designHeight);
 
   gl.useProgram(program);
   gl.viewport(0, 0, scratchCanvas.width, scratchCanvas.height);
@@ -1029,6 +3229,13 @@ export function renderBackgroundToCanvasWebGL(
     }
   };
 
+  const setUniform3f = (name: string, x: number, y: number, z: number): void => {
+    const location = gl.getUniformLocation(program, name);
+    if (location !== null) {
+      gl.uniform3f(location, x, y, z);
+    }
+  };
+
   const setUniform4f = (
     name: string,
     x: number,
@@ -1049,6 +3256,13 @@ export function renderBackgroundToCanvasWebGL(
     }
   };
 
+  const setUniformMatrix3 = (name: string, matrix: Matrix3): void => {
+    const location = gl.getUniformLocation(program, name);
+    if (location !== null) {
+      gl.uniformMatrix3fv(location, false, toColumnMajor(matrix));
+    }
+  };
+
   setUniform2f("uDesignSize", designWidth, designHeight);
   setUniform2f("uPhysicalSize", scratchCanvas.width, scratchCanvas.height);
   setUniform4f(
@@ -1058,6 +3272,7 @@ export function renderBackgroundToCanvasWebGL(
     resolved.baseColor.b,
     resolved.baseColor.a,
   );
+  setUniform1f("uCompositeSpace", COMPOSITE_SPACE_CODES[resolved.compositeSpace]);
   setUniform1f("uOpaque", resolved.opaque ? 1 : 0);
   setUniform1i("uLayerCount", resolved.layers.length);
   setUniform1f("uDitherMode", ditherModeToCode(resolved.ditherMode));
@@ -1070,25 +3285,32 @@ export function renderBackgroundToCanvasWebGL(
     (resolved.grain?.monochrome ?? true) ? 1 : 0,
   );
 
+  const outputMatrices = getOutputMatrices(resolved.outputColorSpace);
+  const luminanceWeights = getLuminanceWeights(resolved.outputColorSpace);
+  setUniformMatrix3("uSrgbToOutput", outputMatrices.srgbToOutput);
+  setUniformMatrix3("uOutputToSrgb", outputMatrices.outputToSrgb);
+  setUniform3f("uLuminanceWeights", ...luminanceWeights);
+
   setUniformVec4Array("uLayerMeta1", packed.layerMeta1);
   setUniformVec4Array("uLayerMeta2", packed.layerMeta2);
-  setUniformVec4Array("uLayerLinear1", packed.layerLinear1);
-  setUniformVec4Array("uLayerLinear2", packed.layerLinear2);
-  setUniformVec4Array("uLayerLinear3", packed.layerLinear3);
-  setUniformVec4Array("uLayerRadial1", packed.layerRadial1);
-  setUniformVec4Array("uLayerRadial2", packed.layerRadial2);
-  setUniformVec4Array("uLayerBox1", packed.layerBox1);
-  setUniformVec4Array("uLayerBox2", packed.layerBox2);
+  setUniformVec4Array("uLayerShadow", packed.layerShadow);
+  setUniformVec4Array("uLayerMeta3", packed.layerMeta3);
+  setUniformVec4Array("uLayerTransform1", packed.layerTransform1);
+  setUniformVec4Array("uLayerTransform2", packed.layerTransform2);
+  setUniformVec4Array("uLayerWarp", packed.layerWarp);
   setUniformVec4Array("uLayerGrain", packed.layerGrain);
+  setUniformVec4Array("uLayerComposite", packed.layerComposite);
+  setUniformVec4Array("uGroup", packed.groupParams);
+  setUniformVec4Array("uLayerMasks", packed.layerMasks);
   setUniformVec4Array("uStopPos", packed.stopPos);
   setUniformVec4Array("uStopColor0", packed.stopColor0);
   setUniformVec4Array("uStopColor1", packed.stopColor1);
   setUniformVec4Array("uStopColor2", packed.stopColor2);
   setUniformVec4Array("uStopColor3", packed.stopColor3);
-  setUniformVec4Array("uStopLab0", packed.stopLab0);
-  setUniformVec4Array("uStopLab1", packed.stopLab1);
-  setUniformVec4Array("uStopLab2", packed.stopLab2);
-  setUniformVec4Array("uStopLab3", packed.stopLab3);
+  setUniformVec4Array("uStopCoords0", packed.stopCoords0);
+  setUniformVec4Array("uStopCoords1", packed.stopCoords1);
+  setUniformVec4Array("uStopCoords2", packed.stopCoords2);
+  setUniformVec4Array("uStopCoords3", packed.stopCoords3);
 
   const blueNoiseTexture = gl.createTexture();
   if (!blueNoiseTexture) {
@@ -1140,12 +3362,86 @@ export function renderBackgroundToCanvasWebGL(
   setUniform1i("uBlueNoise", 0);
   setUniform1f("uHasBlueNoise", blueNoiseData ? 1 : 0);
 
+  // Slot order matches packLayerUniforms: the base image, then image layers.
+  const images = [
+    ...(resolved.baseImage ? [resolved.baseImage.image] : []),
+    ...resolved.layers.flatMap(({ image }) => (image ? [image] : [])),
+  ];
+  const maxTextureSize = gl.getParameter(gl.MAX_TEXTURE_SIZE) as number;
+
+  // Mesh patches and shape outlines are in design pixels, and images are in
+  // linear light, so they need float texels.
+  const needsFloatTextures = meshData.patchCount > 0 || shapeData.rows > 0 || images.length > 0;
+  if (
+    (needsFloatTextures && !gl.getExtension("OES_texture_float")) ||
+    images.some(({ width, height }) => Math.max(width, height) > maxTextureSize)
+  ) {
+    gl.deleteTexture(blueNoiseTexture);
+    gl.deleteBuffer(positionBuffer);
+    gl.deleteProgram(program);
+    gl.deleteShader(vertexShader);
+    gl.deleteShader(fragmentShader);
+    return false;
+  }
+
+  const meshTexture =
+    meshData.patchCount > 0
+      ? createFloatTexture(
+          gl,
+          gl.TEXTURE1,
+          MESH_TEXELS_PER_PATCH,
+          meshData.patchCount,
+          meshData.data,
+        )
+      : null;
+  const shapeTexture =
+    shapeData.rows > 0
+      ? createFloatTexture(gl, gl.TEXTURE2, shapeData.width, shapeData.rows, shapeData.data)
+      : null;
+
+  setUniformVec4Array("uFreeformPoint", freeformPoints.points);
+  setUniformVec4Array("uFreeformColor", freeformPoints.colors);
+  setUniform1i("uMeshData", 1);
+  setUniform2f("uMeshDataSize", MESH_TEXELS_PER_PATCH, Math.max(1, meshData.patchCount));
+  setUniformVec4Array("uLayerParams1", packed.layerParams1);
+  setUniformVec4Array("uLayerParams2", packed.layerParams2);
+  setUniformVec4Array("uLayerParams3", packed.layerParams3);
+  setUniformVec4Array("uLayerParams4", packed.layerParams4);
+  setUniform1i("uShapeData", 2);
+  setUniform2f("uShapeDataSize", shapeData.width, Math.max(1, shapeData.rows));
+
+  const imageTextures = images.map((image, slot) =>
+    createFloatTexture(gl, gl.TEXTURE3 + slot, image.width, image.height, image.pixels),
+  );
+  for (let slot = 0; slot < MAX_IMAGES; slot++) {
+    setUniform1i(`uImage${slot}`, 3 + slot);
+    setUniform2f(`uImage${slot}Size`, images[slot]?.width ?? 1, images[slot]?.height ?? 1);
+  }
+  if (resolved.baseImage) {
+    const placement = resolveImagePlacement(
+      resolved.baseImage.image,
+      resolved.baseImage.fit,
+      designWidth,
+      designHeight,
+    );
+    setUniform4f("uBaseImage", placement.x, placement.y, placement.scale, 0);
+  } else {
+    setUniform4f("uBaseImage", 0, 0, 1, -1);
+  }
+
   gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
 
   targetContext.clearRect(0, 0, targetCanvas.width, targetCanvas.height);
   targetContext.drawImage(scratchCanvas, 0, 0, targetCanvas.width, targetCanvas.height);
 
   gl.deleteTexture(blueNoiseTexture);
+  if (meshTexture) {
+    gl.deleteTexture(meshTexture);
+  }
+  if (shapeTexture) {
+    gl.deleteTexture(shapeTexture);
+  }
+  imageTextures.forEach((texture) => gl.deleteTexture(texture));
   gl.deleteBuffer(positionBuffer);
   gl.deleteProgram(program);
   gl.deleteShader(vertexShader);